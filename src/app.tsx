@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
-import { Layout, Menu, theme, Button, notification } from 'antd';
+import { Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
+import { Layout, Menu, theme, Button, notification, Result, Spin } from 'antd';
 import {
   AppstoreOutlined,
   ApiOutlined,
@@ -8,8 +8,6 @@ import {
   FileTextOutlined,
   BarChartOutlined,
   SettingOutlined,
-  DisconnectOutlined,
-  CheckCircleOutlined,
 } from '@ant-design/icons';
 import Dashboard from './pages/Dashboard';
 import Services from './pages/Services';
@@ -17,12 +15,38 @@ import Connections from './pages/Connections';
 import Logs from './pages/Logs';
 import Stats from './pages/Stats';
 import Settings from './pages/Settings';
+import Trace from './pages/Trace';
+import Login from './pages/Login';
 import socketService from './services/socket';
+import statsHistory from './services/statsHistory';
+import dataStore from './services/dataStore';
+import alertService from './services/alerts';
+import environmentService from './services/environments';
+import authService from './services/auth';
+import permissionService from './services/permissions';
+import { usePermissions } from './hooks/usePermission';
+import { Permission } from './types/api';
+import AlertCenter from './components/AlertCenter';
+import EnvironmentSwitcher from './components/EnvironmentSwitcher';
+import UserMenu from './components/UserMenu';
+import ConnectionStatus from './components/ConnectionStatus';
 
 const { Header, Content, Sider } = Layout;
 
+interface RouteConfig {
+  key: string;
+  path: string;
+  icon: React.ReactNode;
+  label: string;
+  component: React.ReactNode;
+  permission?: Permission;
+  hideInMenu?: boolean;
+  // Menu item highlighted for detail routes
+  parentKey?: string;
+}
+
 // Define routes configuration for cleaner code
-const routes = [
+const routes: RouteConfig[] = [
   { key: '1', path: '/', icon: <AppstoreOutlined />, label: 'Dashboard', component: <Dashboard /> },
   {
     key: '2',
@@ -52,6 +76,36 @@ const routes = [
     icon: <SettingOutlined />,
     label: 'Settings',
     component: <Settings />,
+    // Pages behind a permission are hidden from the menu and blocked when visited directly
+    permission: 'settings:manage',
+  },
+  // Detail routes reached from other pages; highlight their parent menu item
+  {
+    key: '7',
+    path: '/traces/:traceId',
+    icon: <FileTextOutlined />,
+    label: 'Trace',
+    component: <Trace />,
+    hideInMenu: true,
+    parentKey: '4',
+  },
+  {
+    key: '8',
+    path: '/services/:serviceId',
+    icon: <ApiOutlined />,
+    label: 'Service',
+    component: <Services />,
+    hideInMenu: true,
+    parentKey: '2',
+  },
+  {
+    key: '9',
+    path: '/connections/:connectionId',
+    icon: <DatabaseOutlined />,
+    label: 'Connection',
+    component: <Connections />,
+    hideInMenu: true,
+    parentKey: '3',
   },
 ];
 
@@ -59,7 +113,9 @@ const App: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [collapsed, setCollapsed] = useState(false);
-  const [connected, setConnected] = useState(false);
+  const [environmentId, setEnvironmentId] = useState(environmentService.getActive().id);
+  const [loginRequired, setLoginRequired] = useState(environmentService.isLoginRequired());
+  const { permissions, loaded: permissionsLoaded } = usePermissions();
 
   const {
     token: { colorBgContainer, borderRadiusLG },
@@ -69,9 +125,9 @@ const App: React.FC = () => {
   const getSelectedKey = useCallback(() => {
     const path = location.pathname.split('/')[1] || 'dashboard';
     const route = routes.find(
-      (r) => r.path === `/${path}` || (r.path === '/' && path === 'dashboard'),
+      (r) => r.path.split('/')[1] === path || (r.path === '/' && path === 'dashboard'),
     );
-    return route?.key || '1';
+    return route?.parentKey || route?.key || '1';
   }, [location.pathname]);
 
   // Handle menu item click - memoized
@@ -85,29 +141,13 @@ const App: React.FC = () => {
     [navigate],
   );
 
-  // Toggle WebSocket connection - memoized
-  const toggleConnection = useCallback(() => {
-    if (connected) {
-      socketService.disconnect();
-      notification.info({
-        message: 'Disconnected',
-        description: 'WebSocket connection has been terminated.',
-      });
-    } else {
-      socketService.connect();
-      notification.success({
-        message: 'Connecting',
-        description: 'Attempting to establish WebSocket connection...',
-      });
-    }
-  }, [connected]);
-
   // Connect to WebSocket on component mount
   useEffect(() => {
-    // Set up event listeners
+    // Set up event listeners; notifications share a key so repeated reconnection attempts
+    // replace one another instead of stacking up
     const connectHandler = () => {
-      setConnected(true);
       notification.success({
+        key: 'socket-connection',
         message: 'Connected',
         description: 'WebSocket connection established successfully.',
         duration: 3,
@@ -115,8 +155,8 @@ const App: React.FC = () => {
     };
 
     const disconnectHandler = () => {
-      setConnected(false);
       notification.warning({
+        key: 'socket-connection',
         message: 'Disconnected',
         description: 'WebSocket connection lost. Attempting to reconnect...',
         duration: 4,
@@ -125,38 +165,90 @@ const App: React.FC = () => {
 
     const errorHandler = (error: Error) => {
       notification.error({
+        key: 'socket-connection',
         message: 'Connection Error',
         description: `Failed to connect: ${error.message}`,
         duration: 5,
       });
     };
 
-    // Initialize connection
-    socketService.connect();
+    // Connect to the active environment, start the shared data store, recording stats history
+    // and evaluating alert rules
+    environmentService.apply();
+    dataStore.start();
+    statsHistory.start();
+    alertService.start();
+    permissionService.start();
 
     // Register event handlers
     socketService.on('connect', connectHandler);
     socketService.on('disconnect', disconnectHandler);
     socketService.on('connect_error', errorHandler);
 
-    // Update the connection status on mount
-    setConnected(socketService.isConnected());
+    // Remount pages on environment switch so they refetch from the new backend
+    const unsubscribeEnvironment = environmentService.subscribe((active) => {
+      setEnvironmentId(active.id);
+      setLoginRequired(environmentService.isLoginRequired());
+    });
+
+    // Reconnect with the new credentials on sign-in, and drop the connection on sign-out
+    const unsubscribeAuth = authService.subscribe(() => {
+      setLoginRequired(environmentService.isLoginRequired());
+      environmentService.apply();
+    });
 
     // Clean up on unmount
     return () => {
       socketService.off('connect', connectHandler);
       socketService.off('disconnect', disconnectHandler);
       socketService.off('connect_error', errorHandler);
+      unsubscribeEnvironment();
+      unsubscribeAuth();
+      dataStore.stop();
+      statsHistory.stop();
+      alertService.stop();
+      permissionService.stop();
     };
   }, []);
 
   // Generate menu items from routes configuration
-  const menuItems = routes.map((route) => ({
-    key: route.key,
-    icon: route.icon,
-    label: route.label,
-    onClick: () => handleMenuClick(route.key),
-  }));
+  const menuItems = routes
+    .filter(
+      (route) => !route.hideInMenu && (!route.permission || permissions.has(route.permission)),
+    )
+    .map((route) => ({
+      key: route.key,
+      icon: route.icon,
+      label: route.label,
+      onClick: () => handleMenuClick(route.key),
+    }));
+
+  // Render a route's page, or a placeholder when the user may not access it
+  const renderRoute = (route: RouteConfig) => {
+    if (!route.permission || permissions.has(route.permission)) return route.component;
+    if (!permissionsLoaded) return <Spin style={{ display: 'block', margin: '48px auto' }} />;
+    return (
+      <Result
+        status="403"
+        title="Access denied"
+        subTitle={`You don't have permission to view ${route.label}.`}
+        extra={
+          <Button type="primary" onClick={() => navigate('/')}>
+            Back to Dashboard
+          </Button>
+        }
+      />
+    );
+  };
+
+  // The login page is shown without the dashboard chrome
+  if (location.pathname === '/login') {
+    return <Login />;
+  }
+
+  if (loginRequired) {
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
+  }
 
   return (
     <Layout>
@@ -166,15 +258,10 @@ const App: React.FC = () => {
           <span>gRPC Dashboard</span>
         </div>
         <div className="header-right">
-          <Button
-            type="text"
-            size="small"
-            onClick={toggleConnection}
-            icon={connected ? <CheckCircleOutlined /> : <DisconnectOutlined />}
-            style={{ color: 'white' }}
-          >
-            {connected ? 'Connected' : 'Disconnected'}
-          </Button>
+          <EnvironmentSwitcher />
+          <AlertCenter />
+          <UserMenu />
+          <ConnectionStatus />
         </div>
       </Header>
       <Layout>
@@ -204,12 +291,12 @@ const App: React.FC = () => {
               overflow: 'auto',
             }}
           >
-            <Routes>
+            <Routes key={environmentId}>
               {routes.map((route) => (
                 <Route
                   key={route.key}
                   path={route.path === '/' ? '/' : route.path.slice(1)}
-                  element={route.component}
+                  element={renderRoute(route)}
                 />
               ))}
             </Routes>
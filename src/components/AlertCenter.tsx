@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Badge, Button, Drawer, Empty, List, Space, Tag, Tooltip, Typography } from 'antd';
+import { BellOutlined, ClearOutlined, SettingOutlined } from '@ant-design/icons';
+import { format, formatDistanceStrict } from 'date-fns';
+import alertService, { AlertState } from '../services/alerts';
+import { SEVERITY_COLORS } from '../utils/alerts';
+
+const { Text } = Typography;
+
+/**
+ * Header bell showing unread alerts, opening a drawer with the alert history
+ */
+const AlertCenter: React.FC = () => {
+  const navigate = useNavigate();
+  const [state, setState] = useState<AlertState>(alertService.getState());
+  const [open, setOpen] = useState(false);
+
+  // Follow alert history changes
+  useEffect(() => alertService.subscribe(setState), []);
+
+  const openDrawer = useCallback(() => {
+    setOpen(true);
+    alertService.markAllRead();
+  }, []);
+
+  const manageRules = useCallback(() => {
+    setOpen(false);
+    navigate('/settings');
+  }, [navigate]);
+
+  const firingCount = state.history.filter((event) => !event.resolvedAt).length;
+
+  return (
+    <>
+      <Tooltip title="Alerts">
+        <Badge count={state.unreadCount} size="small" offset={[-4, 4]}>
+          <Button
+            type="text"
+            size="small"
+            icon={<BellOutlined />}
+            onClick={openDrawer}
+            style={{ color: 'white' }}
+          />
+        </Badge>
+      </Tooltip>
+
+      <Drawer
+        title={
+          <Space>
+            <span>Alerts</span>
+            {firingCount > 0 && <Tag color="red">{firingCount} firing</Tag>}
+          </Space>
+        }
+        open={open}
+        onClose={() => setOpen(false)}
+        width={480}
+        extra={
+          <Space>
+            <Button size="small" icon={<SettingOutlined />} onClick={manageRules}>
+              Rules
+            </Button>
+            <Button
+              size="small"
+              icon={<ClearOutlined />}
+              onClick={() => alertService.clearHistory()}
+              disabled={state.history.length === 0}
+            >
+              Clear
+            </Button>
+          </Space>
+        }
+      >
+        {state.history.length === 0 ? (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description={
+              state.rules.length === 0 ? 'No alert rules defined yet' : 'No alerts have fired'
+            }
+          >
+            {state.rules.length === 0 && (
+              <Button type="primary" onClick={manageRules}>
+                Create a rule
+              </Button>
+            )}
+          </Empty>
+        ) : (
+          <List
+            dataSource={state.history}
+            renderItem={(event) => (
+              <List.Item>
+                <List.Item.Meta
+                  title={
+                    <Space>
+                      <Tag color={SEVERITY_COLORS[event.severity]}>
+                        {event.severity.toUpperCase()}
+                      </Tag>
+                      <span>{event.ruleName}</span>
+                      {event.resolvedAt ? (
+                        <Tag color="green">Resolved</Tag>
+                      ) : (
+                        <Tag color="red">Firing</Tag>
+                      )}
+                    </Space>
+                  }
+                  description={
+                    <Space direction="vertical" size={0}>
+                      <Text>{event.message}</Text>
+                      <Text type="secondary" style={{ fontSize: 12 }}>
+                        {format(new Date(event.firedAt), 'MMM dd, HH:mm:ss')}
+                        {event.resolvedAt &&
+                          ` · lasted ${formatDistanceStrict(
+                            new Date(event.resolvedAt),
+                            new Date(event.firedAt),
+                          )}`}
+                      </Text>
+                    </Space>
+                  }
+                />
+              </List.Item>
+            )}
+          />
+        )}
+      </Drawer>
+    </>
+  );
+};
+
+export default AlertCenter;
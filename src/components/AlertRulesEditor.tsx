@@ -0,0 +1,355 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Button,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+} from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined } from '@ant-design/icons';
+import { ColumnsType } from 'antd/es/table';
+import alertService from '../services/alerts';
+import { useResource } from '../hooks/useDataStore';
+import {
+  ALERT_RULE_TYPES,
+  AlertRule,
+  AlertRuleType,
+  describeRule,
+  SEVERITY_COLORS,
+  STATS_METRICS,
+} from '../utils/alerts';
+
+const { Text } = Typography;
+
+// Values used to pre-fill the form for a new rule
+const NEW_RULE_DEFAULTS = {
+  type: 'stats' as AlertRuleType,
+  severity: 'warning',
+  enabled: true,
+  metric: 'successRate',
+  operator: '<',
+  threshold: 90,
+  forMinutes: 2,
+  service: '*',
+  status: 'error',
+  level: 'error',
+  windowMinutes: 1,
+};
+
+/**
+ * Table of alert rules with a modal form for adding and editing them
+ */
+const AlertRulesEditor: React.FC = () => {
+  const [rules, setRules] = useState<AlertRule[]>(alertService.getRules());
+  const { data: services } = useResource('services');
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [form] = Form.useForm();
+
+  // Keep the table in sync with the alert service
+  useEffect(() => alertService.subscribe((state) => setRules(state.rules)), []);
+
+  const openEditor = useCallback(
+    (rule: AlertRule | null) => {
+      setEditing(rule);
+      form.resetFields();
+      form.setFieldsValue(rule ? { ...NEW_RULE_DEFAULTS, ...rule } : NEW_RULE_DEFAULTS);
+      setModalOpen(true);
+    },
+    [form],
+  );
+
+  // Build a rule of the selected type from the form values
+  const saveRule = useCallback(async () => {
+    const values = await form.validateFields();
+    const base = {
+      id: editing?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: values.name,
+      enabled: values.enabled,
+      severity: values.severity,
+    };
+
+    let rule: AlertRule;
+    switch (values.type as AlertRuleType) {
+      case 'stats':
+        rule = {
+          ...base,
+          type: 'stats',
+          metric: values.metric,
+          operator: values.operator,
+          threshold: values.threshold,
+          forMinutes: values.forMinutes,
+        };
+        break;
+      case 'service':
+        rule = { ...base, type: 'service', service: values.service, forMinutes: values.forMinutes };
+        break;
+      case 'connections':
+        rule = {
+          ...base,
+          type: 'connections',
+          status: values.status,
+          operator: values.operator,
+          threshold: values.threshold,
+          forMinutes: values.forMinutes,
+        };
+        break;
+      case 'logRate':
+        rule = {
+          ...base,
+          type: 'logRate',
+          level: values.level,
+          threshold: values.threshold,
+          windowMinutes: values.windowMinutes,
+        };
+        if (values.context) rule.context = values.context;
+        break;
+    }
+
+    alertService.saveRules(
+      editing ? rules.map((r) => (r.id === editing.id ? rule : r)) : [...rules, rule],
+    );
+    setModalOpen(false);
+  }, [form, editing, rules]);
+
+  const toggleRule = useCallback(
+    (rule: AlertRule, enabled: boolean) => {
+      alertService.saveRules(rules.map((r) => (r.id === rule.id ? { ...r, enabled } : r)));
+    },
+    [rules],
+  );
+
+  const deleteRule = useCallback(
+    (rule: AlertRule) => {
+      alertService.saveRules(rules.filter((r) => r.id !== rule.id));
+    },
+    [rules],
+  );
+
+  const columns: ColumnsType<AlertRule> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, rule) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{name}</Text>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {ALERT_RULE_TYPES[rule.type]}
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Condition',
+      key: 'condition',
+      render: (_, rule) => describeRule(rule),
+    },
+    {
+      title: 'Severity',
+      dataIndex: 'severity',
+      key: 'severity',
+      width: 100,
+      render: (severity: AlertRule['severity']) => (
+        <Tag color={SEVERITY_COLORS[severity]}>{severity.toUpperCase()}</Tag>
+      ),
+    },
+    {
+      title: 'Enabled',
+      dataIndex: 'enabled',
+      key: 'enabled',
+      width: 90,
+      render: (enabled: boolean, rule) => (
+        <Switch size="small" checked={enabled} onChange={(checked) => toggleRule(rule, checked)} />
+      ),
+    },
+    {
+      title: 'Action',
+      key: 'action',
+      width: 100,
+      render: (_, rule) => (
+        <Space size={0}>
+          <Tooltip title="Edit">
+            <Button type="text" icon={<EditOutlined />} onClick={() => openEditor(rule)} />
+          </Tooltip>
+          <Popconfirm title="Delete this rule?" onConfirm={() => deleteRule(rule)}>
+            <Button type="text" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const operatorSelect = (
+    <Select
+      style={{ width: 80 }}
+      options={[
+        { value: '<', label: '<' },
+        { value: '>', label: '>' },
+      ]}
+    />
+  );
+
+  return (
+    <>
+      <Table
+        dataSource={rules}
+        columns={columns}
+        rowKey="id"
+        size="small"
+        pagination={false}
+        locale={{ emptyText: 'No alert rules defined' }}
+        footer={() => (
+          <Button type="dashed" icon={<PlusOutlined />} onClick={() => openEditor(null)}>
+            Add Rule
+          </Button>
+        )}
+      />
+
+      <Modal
+        title={editing ? 'Edit Alert Rule' : 'Add Alert Rule'}
+        open={modalOpen}
+        onOk={saveRule}
+        onCancel={() => setModalOpen(false)}
+        okText="Save"
+        forceRender
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item
+            name="name"
+            label="Name"
+            rules={[{ required: true, message: 'Please enter a rule name' }]}
+          >
+            <Input placeholder="e.g. Low success rate" />
+          </Form.Item>
+
+          <Space wrap>
+            <Form.Item name="type" label="Type">
+              <Select
+                style={{ width: 180 }}
+                options={Object.entries(ALERT_RULE_TYPES).map(([value, label]) => ({
+                  value,
+                  label,
+                }))}
+              />
+            </Form.Item>
+            <Form.Item name="severity" label="Severity">
+              <Select
+                style={{ width: 120 }}
+                options={Object.keys(SEVERITY_COLORS).map((value) => ({ value, label: value }))}
+              />
+            </Form.Item>
+            <Form.Item name="enabled" label="Enabled" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Space>
+
+          <Form.Item noStyle shouldUpdate={(prev, next) => prev.type !== next.type}>
+            {({ getFieldValue }) => {
+              const type: AlertRuleType = getFieldValue('type');
+              return (
+                <Space wrap align="start">
+                  {type === 'stats' && (
+                    <Form.Item name="metric" label="Metric">
+                      <Select
+                        style={{ width: 180 }}
+                        options={Object.entries(STATS_METRICS).map(([value, { label }]) => ({
+                          value,
+                          label,
+                        }))}
+                      />
+                    </Form.Item>
+                  )}
+                  {type === 'service' && (
+                    <Form.Item name="service" label="Service">
+                      <Select
+                        style={{ width: 220 }}
+                        showSearch
+                        options={[
+                          { value: '*', label: 'Any service' },
+                          ...services.map((service) => ({
+                            value: service.name,
+                            label: service.name,
+                          })),
+                        ]}
+                      />
+                    </Form.Item>
+                  )}
+                  {type === 'connections' && (
+                    <Form.Item name="status" label="Connection status">
+                      <Select
+                        style={{ width: 150 }}
+                        options={['connected', 'draining', 'disconnected', 'error'].map(
+                          (value) => ({
+                            value,
+                            label: value,
+                          }),
+                        )}
+                      />
+                    </Form.Item>
+                  )}
+                  {type === 'logRate' && (
+                    <>
+                      <Form.Item name="level" label="Level">
+                        <Select
+                          style={{ width: 120 }}
+                          options={['error', 'warn', 'info', 'debug', 'verbose'].map((value) => ({
+                            value,
+                            label: value,
+                          }))}
+                        />
+                      </Form.Item>
+                      <Form.Item name="context" label="Context or service">
+                        <Input placeholder="Any" style={{ width: 180 }} />
+                      </Form.Item>
+                    </>
+                  )}
+                  {(type === 'stats' || type === 'connections') && (
+                    <Form.Item name="operator" label="Operator">
+                      {operatorSelect}
+                    </Form.Item>
+                  )}
+                  {type !== 'service' && (
+                    <Form.Item
+                      name="threshold"
+                      label={type === 'logRate' ? 'More than' : 'Threshold'}
+                      rules={[{ required: true, message: 'Required' }]}
+                    >
+                      <InputNumber min={0} style={{ width: 110 }} />
+                    </Form.Item>
+                  )}
+                  {type === 'logRate' ? (
+                    <Form.Item name="windowMinutes" label="Window (min)">
+                      <InputNumber min={1} max={60} style={{ width: 110 }} />
+                    </Form.Item>
+                  ) : (
+                    <Form.Item
+                      name="forMinutes"
+                      label={
+                        <Tooltip title="How long the condition must hold before the alert fires">
+                          For (min)
+                        </Tooltip>
+                      }
+                    >
+                      <InputNumber min={0} max={60} style={{ width: 110 }} />
+                    </Form.Item>
+                  )}
+                </Space>
+              );
+            }}
+          </Form.Item>
+        </Form>
+      </Modal>
+    </>
+  );
+};
+
+export default AlertRulesEditor;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Input, Modal, Space, Typography, message } from 'antd';
+import { AxiosError } from 'axios';
+import { ConnectionAction, GrpcConnection } from '../types/api';
+import ApiService from '../services/api';
+
+const { Text } = Typography;
+
+const ACTIONS: Record<
+  ConnectionAction,
+  { title: string; okText: string; description: string; past: string }
+> = {
+  disconnect: {
+    title: 'Disconnect client',
+    okText: 'Disconnect',
+    description: 'The connection is closed immediately and in-flight calls are cancelled.',
+    past: 'disconnected',
+  },
+  drain: {
+    title: 'Drain connection',
+    okText: 'Drain',
+    description:
+      'The client receives no new calls and the connection closes once in-flight calls finish.',
+    past: 'draining',
+  },
+};
+
+interface ConnectionActionModalProps {
+  connection: GrpcConnection | null;
+  action: ConnectionAction | null;
+  onClose: () => void;
+  // Called with the connection as returned by the backend after the action
+  onDone: (connection: GrpcConnection) => void;
+}
+
+/**
+ * Confirmation dialog that disconnects or drains a connection; the backend records the action and
+ * reason in its audit log
+ */
+const ConnectionActionModal: React.FC<ConnectionActionModalProps> = ({
+  connection,
+  action,
+  onClose,
+  onDone,
+}) => {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from a blank form each time the dialog opens
+  useEffect(() => {
+    setReason('');
+    setError(null);
+  }, [connection?.id, action]);
+
+  const confirm = async () => {
+    if (!connection || !action) return;
+
+    const trimmed = reason.trim();
+    const request = trimmed ? { reason: trimmed } : {};
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const updated =
+        action === 'drain'
+          ? await ApiService.drainConnection(connection.id, request)
+          : await ApiService.disconnectConnection(connection.id, request);
+
+      message.success(`Connection ${connection.clientId} ${ACTIONS[action].past}`);
+      onDone(updated);
+      onClose();
+    } catch (error) {
+      console.error(`Error running ${action} on connection:`, error);
+      const data = (error as AxiosError<{ message?: string }>).response?.data;
+      const errorMessage =
+        data?.message || (error instanceof Error ? error.message : `Failed to ${action}`);
+      setError(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const config = action ? ACTIONS[action] : null;
+
+  return (
+    <Modal
+      title={config?.title}
+      open={!!connection && !!action}
+      onOk={confirm}
+      onCancel={onClose}
+      okText={config?.okText}
+      okButtonProps={{ danger: action === 'disconnect', loading: submitting }}
+      cancelButtonProps={{ disabled: submitting }}
+      destroyOnClose
+    >
+      {connection && config && (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text>
+            {config.description} This affects client <Text strong>{connection.clientId}</Text> on{' '}
+            <Text strong>{connection.service}</Text>.
+          </Text>
+          <Input.TextArea
+            placeholder="Reason (recorded in the audit log)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            autoSize={{ minRows: 2, maxRows: 4 }}
+            maxLength={500}
+          />
+          {error && <Alert type="error" showIcon message={error} />}
+        </Space>
+      )}
+    </Modal>
+  );
+};
+
+export default ConnectionActionModal;
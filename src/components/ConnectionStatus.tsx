@@ -0,0 +1,113 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, notification, Space, Tooltip } from 'antd';
+import { CheckCircleOutlined, DisconnectOutlined, SyncOutlined } from '@ant-design/icons';
+import socketService, { SocketConnectionState } from '../services/socket';
+import environmentService from '../services/environments';
+
+// How often the retry countdown is updated
+const COUNTDOWN_INTERVAL = 1000;
+
+/**
+ * Header button showing the WebSocket connection state, with a retry countdown while
+ * reconnecting; clicking it connects or disconnects
+ */
+const ConnectionStatus: React.FC = () => {
+  const [state, setState] = useState<SocketConnectionState>(socketService.getConnectionState());
+  const [now, setNow] = useState(Date.now());
+
+  // Follow connection state changes
+  useEffect(() => socketService.on('state', setState), []);
+
+  // Tick the countdown while waiting for the next attempt
+  useEffect(() => {
+    if (state.status !== 'reconnecting') return;
+    setNow(Date.now());
+    const intervalId = window.setInterval(() => setNow(Date.now()), COUNTDOWN_INTERVAL);
+    return () => window.clearInterval(intervalId);
+  }, [state]);
+
+  // Toggle WebSocket connection
+  const toggleConnection = useCallback(() => {
+    if (state.status === 'offline') {
+      socketService.connect(environmentService.getActive().socketUrl);
+      notification.success({
+        message: 'Connecting',
+        description: 'Attempting to establish WebSocket connection...',
+      });
+    } else {
+      socketService.disconnect();
+      notification.info({
+        message: 'Disconnected',
+        description: 'WebSocket connection has been terminated.',
+      });
+    }
+  }, [state.status]);
+
+  const buttonStyle = { color: 'white' };
+
+  switch (state.status) {
+    case 'connected':
+      return (
+        <Button
+          type="text"
+          size="small"
+          onClick={toggleConnection}
+          icon={<CheckCircleOutlined />}
+          style={buttonStyle}
+        >
+          Connected
+        </Button>
+      );
+    case 'connecting':
+      return (
+        <Tooltip title="Click to cancel">
+          <Button
+            type="text"
+            size="small"
+            onClick={toggleConnection}
+            icon={<SyncOutlined spin />}
+            style={buttonStyle}
+          >
+            Connecting...
+          </Button>
+        </Tooltip>
+      );
+    case 'reconnecting': {
+      const seconds = Math.max(0, Math.ceil((state.retryAt - now) / 1000));
+      return (
+        <Space size={0}>
+          <Tooltip title={`Attempt ${state.attempt}. Click to stop reconnecting.`}>
+            <Button
+              type="text"
+              size="small"
+              onClick={toggleConnection}
+              icon={<SyncOutlined spin />}
+              style={buttonStyle}
+            >
+              {seconds > 0 ? `Reconnecting in ${seconds}s` : 'Reconnecting...'}
+            </Button>
+          </Tooltip>
+          {seconds > 0 && (
+            <Button type="link" size="small" onClick={() => socketService.retryNow()}>
+              Retry now
+            </Button>
+          )}
+        </Space>
+      );
+    }
+    case 'offline':
+      return (
+        <Button
+          type="text"
+          size="small"
+          onClick={toggleConnection}
+          icon={<DisconnectOutlined />}
+          style={buttonStyle}
+        >
+          Disconnected
+        </Button>
+      );
+  }
+};
+
+export default ConnectionStatus;
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Tag, Tooltip, Typography } from 'antd';
+import { ClockCircleOutlined, SyncOutlined, WarningOutlined } from '@ant-design/icons';
+import { format, formatDistanceToNow } from 'date-fns';
+import dataStore, { ResourceKey } from '../services/dataStore';
+import { useDataStore } from '../hooks/useDataStore';
+
+const { Text } = Typography;
+
+// How often the relative "updated ... ago" label is recomputed
+const TICK_INTERVAL = 5000;
+
+interface DataFreshnessProps {
+  resource: ResourceKey;
+}
+
+/**
+ * When a store resource was last updated, flagged once it has gone stale
+ */
+const DataFreshness: React.FC<DataFreshnessProps> = ({ resource }) => {
+  const { updatedAt, loading } = useDataStore((state) => state[resource]);
+  const [now, setNow] = useState(Date.now());
+
+  // Re-render periodically so the age and stale flag stay current without new data
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  if (updatedAt === null) {
+    return loading ? (
+      <Text type="secondary">
+        <SyncOutlined spin /> Loading...
+      </Text>
+    ) : null;
+  }
+
+  const age = formatDistanceToNow(updatedAt, { addSuffix: true });
+  const tooltip = `Last updated ${format(updatedAt, 'MMM dd, yyyy HH:mm:ss')}`;
+
+  if (dataStore.isStale(resource, now)) {
+    return (
+      <Tooltip title={`${tooltip}. Live updates may have stopped - refresh to reload.`}>
+        <Tag color="warning" icon={<WarningOutlined />}>
+          Stale - updated {age}
+        </Tag>
+      </Tooltip>
+    );
+  }
+
+  return (
+    <Tooltip title={tooltip}>
+      <Text type="secondary">
+        {loading ? <SyncOutlined spin /> : <ClockCircleOutlined />} Updated {age}
+      </Text>
+    </Tooltip>
+  );
+};
+
+export default DataFreshness;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button, Dropdown, Space, Tag } from 'antd';
+import {
+  CheckOutlined,
+  CloudServerOutlined,
+  DownOutlined,
+  SettingOutlined,
+} from '@ant-design/icons';
+import environmentService, { EnvironmentProfile } from '../services/environments';
+
+/**
+ * Header dropdown for switching between backend environments
+ */
+const EnvironmentSwitcher: React.FC = () => {
+  const navigate = useNavigate();
+  const [active, setActive] = useState<EnvironmentProfile>(environmentService.getActive());
+  const [profiles, setProfiles] = useState<EnvironmentProfile[]>(environmentService.getProfiles());
+
+  // Follow profile changes made here or in Settings
+  useEffect(
+    () =>
+      environmentService.subscribe((nextActive, nextProfiles) => {
+        setActive(nextActive);
+        setProfiles(nextProfiles);
+      }),
+    [],
+  );
+
+  const items = [
+    ...profiles.map((profile) => ({
+      key: profile.id,
+      icon: profile.id === active.id ? <CheckOutlined /> : <span style={{ width: 14 }} />,
+      label: (
+        <Space>
+          <Tag color={profile.color} style={{ marginRight: 0 }}>
+            {profile.name}
+          </Tag>
+          <span style={{ opacity: 0.65, fontSize: 12 }}>{profile.socketUrl}</span>
+        </Space>
+      ),
+      onClick: () => environmentService.activate(profile.id),
+    })),
+    { type: 'divider' as const },
+    {
+      key: 'manage',
+      icon: <SettingOutlined />,
+      label: 'Manage environments',
+      onClick: () => navigate('/settings'),
+    },
+  ];
+
+  return (
+    <Dropdown menu={{ items, selectedKeys: [active.id] }} trigger={['click']}>
+      <Button type="text" size="small" style={{ color: 'white' }}>
+        <Space size={4}>
+          <CloudServerOutlined />
+          <Tag color={active.color} style={{ marginRight: 0 }}>
+            {active.name}
+          </Tag>
+          <DownOutlined style={{ fontSize: 10 }} />
+        </Space>
+      </Button>
+    </Dropdown>
+  );
+};
+
+export default EnvironmentSwitcher;
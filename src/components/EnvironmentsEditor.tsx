@@ -0,0 +1,267 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Badge,
+  Button,
+  Form,
+  Input,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+} from 'antd';
+import { CheckOutlined, DeleteOutlined, EditOutlined, PlusOutlined } from '@ant-design/icons';
+import { ColumnsType } from 'antd/es/table';
+import { API_PREFIX } from '../services/api';
+import environmentService, {
+  DEFAULT_NAMESPACE,
+  EnvironmentAuthType,
+  EnvironmentProfile,
+} from '../services/environments';
+
+const { Text } = Typography;
+
+const PROFILE_COLORS = ['green', 'blue', 'orange', 'red', 'purple', 'cyan', 'magenta'];
+
+const AUTH_TYPES: Record<EnvironmentAuthType, string> = {
+  none: 'None',
+  bearer: 'Bearer token',
+  apiKey: 'API key header',
+  login: 'Username & password',
+};
+
+/**
+ * Table of backend environment profiles with a modal form for adding and editing them
+ */
+const EnvironmentsEditor: React.FC = () => {
+  const [profiles, setProfiles] = useState<EnvironmentProfile[]>(environmentService.getProfiles());
+  const [activeId, setActiveId] = useState(environmentService.getActive().id);
+  const [editing, setEditing] = useState<EnvironmentProfile | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [form] = Form.useForm();
+
+  // Keep the table in sync with the environment service
+  useEffect(
+    () =>
+      environmentService.subscribe((active, nextProfiles) => {
+        setActiveId(active.id);
+        setProfiles(nextProfiles);
+      }),
+    [],
+  );
+
+  const openEditor = useCallback(
+    (profile: EnvironmentProfile | null) => {
+      setEditing(profile);
+      form.resetFields();
+      form.setFieldsValue(
+        profile ?? {
+          name: '',
+          color: PROFILE_COLORS[profiles.length % PROFILE_COLORS.length],
+          apiBaseUrl: API_PREFIX,
+          socketUrl: window.location.origin,
+          namespace: DEFAULT_NAMESPACE,
+          authType: 'none',
+        },
+      );
+      setModalOpen(true);
+    },
+    [form, profiles.length],
+  );
+
+  const saveProfile = useCallback(async () => {
+    const values = await form.validateFields();
+    const profile: EnvironmentProfile = {
+      id: editing?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: values.name,
+      color: values.color,
+      apiBaseUrl: values.apiBaseUrl.replace(/\/+$/, ''),
+      socketUrl: values.socketUrl.replace(/\/+$/, ''),
+      namespace: values.namespace,
+      authType: values.authType,
+    };
+    if (['bearer', 'apiKey'].includes(values.authType) && values.token) {
+      profile.token = values.token;
+    }
+    if (values.authType === 'apiKey' && values.apiKeyHeader) {
+      profile.apiKeyHeader = values.apiKeyHeader;
+    }
+
+    environmentService.saveProfiles(
+      editing ? profiles.map((p) => (p.id === editing.id ? profile : p)) : [...profiles, profile],
+    );
+    setModalOpen(false);
+  }, [form, editing, profiles]);
+
+  const deleteProfile = useCallback(
+    (profile: EnvironmentProfile) => {
+      environmentService.saveProfiles(profiles.filter((p) => p.id !== profile.id));
+    },
+    [profiles],
+  );
+
+  const columns: ColumnsType<EnvironmentProfile> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, profile) => (
+        <Space>
+          <Tag color={profile.color}>{name}</Tag>
+          {profile.id === activeId && <Badge status="processing" text="Active" />}
+        </Space>
+      ),
+    },
+    {
+      title: 'Endpoints',
+      key: 'endpoints',
+      render: (_, profile) => (
+        <Space direction="vertical" size={0}>
+          <Text style={{ fontSize: 12 }}>REST: {profile.apiBaseUrl}</Text>
+          <Text style={{ fontSize: 12 }}>
+            Socket: {profile.socketUrl}
+            {profile.namespace}
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Auth',
+      dataIndex: 'authType',
+      key: 'authType',
+      width: 130,
+      render: (authType: EnvironmentAuthType) => AUTH_TYPES[authType],
+    },
+    {
+      title: 'Action',
+      key: 'action',
+      width: 140,
+      render: (_, profile) => (
+        <Space size={0}>
+          <Tooltip title="Switch to this environment">
+            <Button
+              type="text"
+              icon={<CheckOutlined />}
+              disabled={profile.id === activeId}
+              onClick={() => environmentService.activate(profile.id)}
+            />
+          </Tooltip>
+          <Tooltip title="Edit">
+            <Button type="text" icon={<EditOutlined />} onClick={() => openEditor(profile)} />
+          </Tooltip>
+          <Popconfirm
+            title="Delete this environment?"
+            onConfirm={() => deleteProfile(profile)}
+            disabled={profiles.length === 1}
+          >
+            <Button type="text" danger icon={<DeleteOutlined />} disabled={profiles.length === 1} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <Table
+        dataSource={profiles}
+        columns={columns}
+        rowKey="id"
+        size="small"
+        pagination={false}
+        footer={() => (
+          <Button type="dashed" icon={<PlusOutlined />} onClick={() => openEditor(null)}>
+            Add Environment
+          </Button>
+        )}
+      />
+
+      <Modal
+        title={editing ? 'Edit Environment' : 'Add Environment'}
+        open={modalOpen}
+        onOk={saveProfile}
+        onCancel={() => setModalOpen(false)}
+        okText="Save"
+        forceRender
+      >
+        <Form form={form} layout="vertical">
+          <Space align="start">
+            <Form.Item
+              name="name"
+              label="Name"
+              rules={[{ required: true, message: 'Please enter a name' }]}
+            >
+              <Input placeholder="e.g. Staging" style={{ width: 260 }} />
+            </Form.Item>
+            <Form.Item name="color" label="Color">
+              <Select
+                style={{ width: 130 }}
+                options={PROFILE_COLORS.map((color) => ({
+                  value: color,
+                  label: <Tag color={color}>{color}</Tag>,
+                }))}
+              />
+            </Form.Item>
+          </Space>
+          <Form.Item
+            name="apiBaseUrl"
+            label="REST Base URL"
+            help="Absolute URL or path, including the API prefix"
+            rules={[{ required: true, message: 'Please enter the REST base URL' }]}
+          >
+            <Input placeholder={`https://staging.example.com${API_PREFIX}`} />
+          </Form.Item>
+          <Space align="start" style={{ marginTop: 16 }}>
+            <Form.Item
+              name="socketUrl"
+              label="WebSocket Server URL"
+              rules={[
+                { required: true, message: 'Please enter a valid URL' },
+                { type: 'url', message: 'Please enter a valid URL' },
+              ]}
+            >
+              <Input placeholder="http://localhost:3000" style={{ width: 260 }} />
+            </Form.Item>
+            <Form.Item
+              name="namespace"
+              label="Namespace"
+              rules={[{ pattern: /^\//, message: 'Must start with /' }]}
+            >
+              <Input placeholder={DEFAULT_NAMESPACE} style={{ width: 180 }} />
+            </Form.Item>
+          </Space>
+          <Form.Item name="authType" label="Authentication">
+            <Select
+              options={Object.entries(AUTH_TYPES).map(([value, label]) => ({ value, label }))}
+            />
+          </Form.Item>
+          <Form.Item noStyle shouldUpdate={(prev, next) => prev.authType !== next.authType}>
+            {({ getFieldValue }) =>
+              ['bearer', 'apiKey'].includes(getFieldValue('authType')) && (
+                <Space align="start">
+                  {getFieldValue('authType') === 'apiKey' && (
+                    <Form.Item name="apiKeyHeader" label="Header">
+                      <Input placeholder="X-API-Key" style={{ width: 160 }} />
+                    </Form.Item>
+                  )}
+                  <Form.Item
+                    name="token"
+                    label={getFieldValue('authType') === 'bearer' ? 'Token' : 'Key'}
+                    rules={[{ required: true, message: 'Required' }]}
+                  >
+                    <Input.Password style={{ width: 280 }} />
+                  </Form.Item>
+                </Space>
+              )
+            }
+          </Form.Item>
+        </Form>
+      </Modal>
+    </>
+  );
+};
+
+export default EnvironmentsEditor;
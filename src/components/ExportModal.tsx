@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Checkbox, Form, Modal, Radio, Typography, notification } from 'antd';
+import { downloadExport, EXPORT_FORMATS, ExportColumn, ExportFormat } from '../utils/export';
+
+const { Text } = Typography;
+
+interface ExportModalProps<T> {
+  open: boolean;
+  title: string;
+  rows: T[];
+  columns: ExportColumn<T>[];
+  // File name without date or extension, e.g. "grpc-logs"
+  baseName: string;
+  // Plural noun for notifications, e.g. "logs"
+  itemLabel: string;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for picking a format and columns, then downloading the rows as a file
+ */
+const ExportModal = <T,>({
+  open,
+  title,
+  rows,
+  columns,
+  baseName,
+  itemLabel,
+  onClose,
+}: ExportModalProps<T>) => {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() =>
+    columns.filter((column) => column.defaultSelected !== false).map((column) => column.key),
+  );
+
+  const exportRows = () => {
+    // Keep the column order of the definitions, not the order they were ticked in
+    const selectedColumns = columns.filter((column) => selectedKeys.includes(column.key));
+
+    try {
+      downloadExport(rows, selectedColumns, format, baseName);
+
+      notification.success({
+        message: 'Export Successful',
+        description: `${rows.length} ${itemLabel} exported to ${EXPORT_FORMATS[format].label}.`,
+      });
+      onClose();
+    } catch (error) {
+      console.error(`Error exporting ${itemLabel}:`, error);
+      notification.error({
+        message: 'Export Failed',
+        description: `Failed to export ${itemLabel} to ${EXPORT_FORMATS[format].label}.`,
+      });
+    }
+  };
+
+  return (
+    <Modal
+      title={title}
+      open={open}
+      onOk={exportRows}
+      onCancel={onClose}
+      okText="Export"
+      okButtonProps={{ disabled: selectedKeys.length === 0 || rows.length === 0 }}
+    >
+      <Form layout="vertical">
+        <Form.Item label="Format">
+          <Radio.Group
+            value={format}
+            onChange={(e) => setFormat(e.target.value)}
+            optionType="button"
+            options={Object.entries(EXPORT_FORMATS).map(([value, { label }]) => ({
+              value,
+              label,
+            }))}
+          />
+        </Form.Item>
+        <Form.Item
+          label="Columns"
+          validateStatus={selectedKeys.length === 0 ? 'error' : ''}
+          help={selectedKeys.length === 0 ? 'Select at least one column' : undefined}
+        >
+          <Checkbox.Group
+            value={selectedKeys}
+            onChange={(keys) => setSelectedKeys(keys as string[])}
+            options={columns.map((column) => ({ value: column.key, label: column.label }))}
+          />
+        </Form.Item>
+      </Form>
+      <Text type="secondary">
+        {rows.length} {itemLabel} will be exported.
+      </Text>
+    </Modal>
+  );
+};
+
+export default ExportModal;
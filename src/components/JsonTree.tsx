@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Typography } from 'antd';
+import { CaretDownOutlined, CaretRightOutlined } from '@ant-design/icons';
+
+const { Text } = Typography;
+
+interface JsonTreeProps {
+  value: unknown;
+  // Nodes shallower than this start expanded
+  defaultExpandDepth?: number;
+}
+
+interface JsonNodeProps {
+  name?: string | undefined;
+  value: unknown;
+  depth: number;
+  defaultExpandDepth: number;
+}
+
+const monospace: React.CSSProperties = {
+  fontFamily: 'SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace',
+  fontSize: 12,
+  lineHeight: '20px',
+};
+
+const VALUE_COLORS: Record<string, string> = {
+  string: '#389e0d',
+  number: '#1677ff',
+  boolean: '#d46b08',
+  null: 'rgba(0, 0, 0, 0.45)',
+};
+
+/**
+ * A primitive value colored by type
+ */
+const renderPrimitive = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return <span style={{ color: VALUE_COLORS.null }}>{String(value)}</span>;
+  }
+  const type = typeof value;
+  const text = type === 'string' ? JSON.stringify(value) : String(value);
+  return (
+    <span style={{ color: VALUE_COLORS[type] ?? 'inherit', wordBreak: 'break-all' }}>{text}</span>
+  );
+};
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, depth, defaultExpandDepth }) => {
+  const [expanded, setExpanded] = useState(depth < defaultExpandDepth);
+  const label = name !== undefined && <span style={{ color: '#722ed1' }}>{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div style={{ paddingLeft: 16 }}>
+        {label}
+        {renderPrimitive(value)}
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  if (entries.length === 0) {
+    return (
+      <div style={{ paddingLeft: 16 }}>
+        {label}
+        {open}
+        {close}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div style={{ cursor: 'pointer' }} onClick={() => setExpanded((prev) => !prev)}>
+        {expanded ? <CaretDownOutlined /> : <CaretRightOutlined />} {label}
+        {open}
+        {!expanded && (
+          <Text type="secondary" style={{ ...monospace }}>
+            {' '}
+            {entries.length} {isArray ? 'items' : 'keys'} {close}
+          </Text>
+        )}
+      </div>
+      {expanded && (
+        <>
+          <div style={{ paddingLeft: 16 }}>
+            {entries.map(([key, child]) => (
+              <JsonNode
+                key={key}
+                name={key}
+                value={child}
+                depth={depth + 1}
+                defaultExpandDepth={defaultExpandDepth}
+              />
+            ))}
+          </div>
+          <div style={{ paddingLeft: 16 }}>{close}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Collapsible view of a JSON value
+ */
+const JsonTree: React.FC<JsonTreeProps> = ({ value, defaultExpandDepth = 2 }) => (
+  <div style={{ ...monospace, overflowX: 'auto' }}>
+    <JsonNode value={value} depth={0} defaultExpandDepth={defaultExpandDepth} />
+  </div>
+);
+
+export default JsonTree;
@@ -0,0 +1,438 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Descriptions,
+  Empty,
+  Input,
+  List,
+  message,
+  Space,
+  Tabs,
+  Tag,
+  Tooltip,
+  Typography,
+} from 'antd';
+import {
+  CaretRightOutlined,
+  ClearOutlined,
+  DeleteOutlined,
+  EditOutlined,
+  HistoryOutlined,
+  PlusOutlined,
+  RedoOutlined,
+} from '@ant-design/icons';
+import { format } from 'date-fns';
+import { AxiosError } from 'axios';
+import { GrpcServiceInfo, InvokeMethodResponse } from '../types/api';
+import ApiService from '../services/api';
+import { getGrpcStatusName, getMethodPath, isMethodEnabled } from '../utils/grpc';
+import PermissionGuard from './PermissionGuard';
+
+const { Text, Paragraph } = Typography;
+const { TextArea } = Input;
+
+const HISTORY_STORAGE_KEY = 'grpcDashboardInvocationHistory';
+const MAX_HISTORY_ENTRIES = 50;
+
+// Larger responses (in characters of JSON) are left out of the stored history
+const MAX_STORED_RESPONSE_LENGTH = 10000;
+
+type MetadataRow = { key: string; value: string };
+
+interface InvocationRecord {
+  id: string;
+  timestamp: string; // ISO date string
+  serviceId: string;
+  method: string;
+  body: string;
+  metadata: MetadataRow[];
+  result?: InvokeMethodResponse;
+  responseOmitted?: boolean; // the response was too large to store
+  error?: string;
+}
+
+interface MethodInvokerProps {
+  service: GrpcServiceInfo;
+  method: string;
+  // Optional starting request body, e.g. a template generated from the schema
+  initialBody?: string | undefined;
+}
+
+const monospace: React.CSSProperties = {
+  fontFamily: 'SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace',
+  fontSize: 12,
+};
+
+/**
+ * Load the persisted invocation history
+ */
+const loadHistory = (): InvocationRecord[] => {
+  const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to parse invocation history:', error);
+    return [];
+  }
+};
+
+/**
+ * Interactive panel for sending a request to a gRPC method through the dashboard backend
+ */
+const MethodInvoker: React.FC<MethodInvokerProps> = ({ service, method, initialBody }) => {
+  const [body, setBody] = useState(initialBody ?? '{}');
+  const [metadata, setMetadata] = useState<MetadataRow[]>([]);
+  const [invoking, setInvoking] = useState(false);
+  const [current, setCurrent] = useState<InvocationRecord | null>(null);
+  const [history, setHistory] = useState<InvocationRecord[]>(loadHistory);
+
+  const methodPath = getMethodPath(service.package, service.name, method);
+
+  // Only active services with the method still being served can be invoked
+  const serviceAvailable = service.status === 'active' && isMethodEnabled(service, method);
+
+  // Reset the editor when switching to a different method
+  useEffect(() => {
+    setBody(initialBody ?? '{}');
+    setMetadata([]);
+    setCurrent(null);
+  }, [service.id, method, initialBody]);
+
+  // Persist history whenever it changes; metadata often carries credentials, so only the header
+  // names are stored and their values are kept in memory for this session
+  useEffect(() => {
+    const stored = history.map((record): InvocationRecord => {
+      const metadata = record.metadata.map((row) => ({ key: row.key, value: '' }));
+      const responseLength = JSON.stringify(record.result?.response ?? null).length;
+      if (!record.result || responseLength <= MAX_STORED_RESPONSE_LENGTH) {
+        return { ...record, metadata };
+      }
+      return {
+        ...record,
+        metadata,
+        result: { ...record.result, response: null },
+        responseOmitted: true,
+      };
+    });
+
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Failed to persist invocation history:', error);
+    }
+  }, [history]);
+
+  // Validate the request body as JSON
+  const bodyError = useMemo(() => {
+    try {
+      JSON.parse(body);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid JSON';
+    }
+  }, [body]);
+
+  const methodHistory = useMemo(
+    () => history.filter((record) => record.serviceId === service.id && record.method === method),
+    [history, service.id, method],
+  );
+
+  // Send the request and record it in the history
+  const invoke = useCallback(
+    async (requestBody: string, requestMetadata: MetadataRow[]) => {
+      const record: InvocationRecord = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: new Date().toISOString(),
+        serviceId: service.id,
+        method,
+        body: requestBody,
+        metadata: requestMetadata,
+      };
+
+      try {
+        setInvoking(true);
+        const headers = Object.fromEntries(
+          requestMetadata.filter((row) => row.key.trim()).map((row) => [row.key.trim(), row.value]),
+        );
+        record.result = await ApiService.invokeMethod(service.id, method, {
+          payload: JSON.parse(requestBody),
+          metadata: headers,
+        });
+      } catch (error) {
+        console.error('Error invoking method:', error);
+        const data = (error as AxiosError<{ message?: string }>).response?.data;
+        record.error =
+          data?.message || (error instanceof Error ? error.message : 'Invocation failed');
+      } finally {
+        setInvoking(false);
+      }
+
+      setCurrent(record);
+      setHistory((prev) => [record, ...prev].slice(0, MAX_HISTORY_ENTRIES));
+    },
+    [service.id, method],
+  );
+
+  // Load a previous invocation into the editor
+  const loadRecord = useCallback((record: InvocationRecord) => {
+    setBody(record.body);
+    setMetadata(record.metadata);
+    setCurrent(record);
+  }, []);
+
+  // Replay a previous invocation as-is; metadata values are not stored, so a record from an
+  // earlier session is loaded into the editor for them to be filled in again
+  const replayRecord = useCallback(
+    (record: InvocationRecord) => {
+      setBody(record.body);
+      setMetadata(record.metadata);
+      if (record.metadata.some((row) => row.key.trim() && !row.value)) {
+        message.warning('Fill in the metadata values, then send the request.');
+        return;
+      }
+      invoke(record.body, record.metadata);
+    },
+    [invoke],
+  );
+
+  const clearHistory = useCallback(() => {
+    setHistory((prev) =>
+      prev.filter((record) => record.serviceId !== service.id || record.method !== method),
+    );
+  }, [service.id, method]);
+
+  const updateMetadataRow = (index: number, field: keyof MetadataRow, value: string) => {
+    setMetadata((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const renderStatus = (record: InvocationRecord) => {
+    if (record.error) return <Tag color="red">ERROR</Tag>;
+    if (!record.result) return null;
+    return (
+      <Tag color={record.result.statusCode === 0 ? 'green' : 'red'}>
+        {record.result.statusCode} {getGrpcStatusName(record.result.statusCode)}
+      </Tag>
+    );
+  };
+
+  const renderKeyValues = (values?: Record<string, string>) =>
+    values && Object.keys(values).length > 0 ? (
+      <Descriptions bordered column={1} size="small">
+        {Object.entries(values).map(([key, value]) => (
+          <Descriptions.Item key={key} label={key}>
+            <Text copyable style={monospace}>
+              {value}
+            </Text>
+          </Descriptions.Item>
+        ))}
+      </Descriptions>
+    ) : (
+      <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="None" />
+    );
+
+  return (
+    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+      <Text code copyable>
+        {methodPath}
+      </Text>
+
+      <Card size="small" title="Request">
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <TextArea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            autoSize={{ minRows: 6, maxRows: 16 }}
+            style={monospace}
+            status={bodyError ? 'error' : ''}
+            spellCheck={false}
+          />
+          {bodyError && (
+            <Text type="danger" style={{ fontSize: 12 }}>
+              {bodyError}
+            </Text>
+          )}
+
+          <Text strong>Metadata</Text>
+          {metadata.map((row, index) => (
+            <Space.Compact key={index} style={{ width: '100%' }}>
+              <Input
+                placeholder="key"
+                value={row.key}
+                onChange={(e) => updateMetadataRow(index, 'key', e.target.value)}
+                style={{ ...monospace, width: '40%' }}
+              />
+              <Input
+                placeholder="value"
+                value={row.value}
+                onChange={(e) => updateMetadataRow(index, 'value', e.target.value)}
+                style={monospace}
+              />
+              <Button
+                icon={<DeleteOutlined />}
+                onClick={() => setMetadata((prev) => prev.filter((_, i) => i !== index))}
+              />
+            </Space.Compact>
+          ))}
+          <Button
+            type="dashed"
+            size="small"
+            icon={<PlusOutlined />}
+            onClick={() => setMetadata((prev) => [...prev, { key: '', value: '' }])}
+          >
+            Add header
+          </Button>
+
+          <PermissionGuard permission="methods:invoke">
+            <Button
+              type="primary"
+              icon={<CaretRightOutlined />}
+              onClick={() => invoke(body, metadata)}
+              loading={invoking}
+              disabled={!!bodyError || !serviceAvailable}
+            >
+              Send
+            </Button>
+          </PermissionGuard>
+          {!serviceAvailable && (
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              {service.status !== 'active'
+                ? 'The service is inactive and cannot be invoked.'
+                : 'This method is disabled and cannot be invoked.'}
+            </Text>
+          )}
+        </Space>
+      </Card>
+
+      {current && (
+        <Card
+          size="small"
+          title={
+            <Space>
+              <span>Response</span>
+              {renderStatus(current)}
+              {current.result && <Tag>{current.result.elapsedMs.toFixed(1)}ms</Tag>}
+            </Space>
+          }
+        >
+          {current.error ? (
+            <Alert type="error" message="Invocation failed" description={current.error} showIcon />
+          ) : (
+            current.result && (
+              <Tabs
+                size="small"
+                items={[
+                  {
+                    key: 'body',
+                    label: 'Body',
+                    children: (
+                      <>
+                        {current.result.statusMessage && (
+                          <Alert
+                            type={current.result.statusCode === 0 ? 'info' : 'error'}
+                            message={current.result.statusMessage}
+                            style={{ marginBottom: 8 }}
+                          />
+                        )}
+                        {current.responseOmitted ? (
+                          <Text type="secondary">
+                            The response was too large to keep in the history.
+                          </Text>
+                        ) : (
+                          <Paragraph
+                            copyable={{ text: JSON.stringify(current.result.response, null, 2) }}
+                            style={{ marginBottom: 0 }}
+                          >
+                            <pre style={{ ...monospace, maxHeight: 400, overflow: 'auto' }}>
+                              {JSON.stringify(current.result.response, null, 2)}
+                            </pre>
+                          </Paragraph>
+                        )}
+                      </>
+                    ),
+                  },
+                  {
+                    key: 'headers',
+                    label: 'Headers',
+                    children: renderKeyValues(current.result.headers),
+                  },
+                  {
+                    key: 'trailers',
+                    label: 'Trailers',
+                    children: renderKeyValues(current.result.trailers),
+                  },
+                ]}
+              />
+            )
+          )}
+        </Card>
+      )}
+
+      <Card
+        size="small"
+        title={
+          <Space>
+            <HistoryOutlined />
+            <span>History ({methodHistory.length})</span>
+          </Space>
+        }
+        extra={
+          <Button
+            type="text"
+            size="small"
+            icon={<ClearOutlined />}
+            onClick={clearHistory}
+            disabled={methodHistory.length === 0}
+          >
+            Clear
+          </Button>
+        }
+      >
+        <List
+          size="small"
+          dataSource={methodHistory}
+          locale={{ emptyText: 'No invocations yet' }}
+          renderItem={(record) => (
+            <List.Item
+              actions={[
+                <Tooltip title="Load into editor" key="load">
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<EditOutlined />}
+                    onClick={() => loadRecord(record)}
+                  />
+                </Tooltip>,
+                <PermissionGuard permission="methods:invoke" title="Replay" key="replay">
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<RedoOutlined />}
+                    onClick={() => replayRecord(record)}
+                    disabled={invoking || !serviceAvailable}
+                  />
+                </PermissionGuard>,
+              ]}
+            >
+              <Space>
+                {renderStatus(record)}
+                <Text type="secondary" style={{ fontSize: 12 }}>
+                  {format(new Date(record.timestamp), 'MMM dd, HH:mm:ss')}
+                </Text>
+                {record.result && (
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    {record.result.elapsedMs.toFixed(1)}ms
+                  </Text>
+                )}
+              </Space>
+            </List.Item>
+          )}
+        />
+      </Card>
+    </Space>
+  );
+};
+
+export default MethodInvoker;
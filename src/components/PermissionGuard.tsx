@@ -0,0 +1,44 @@
+import React from 'react';
+import { Tooltip } from 'antd';
+import { Permission } from '../types/api';
+import { usePermissions } from '../hooks/usePermission';
+import { getPermissionHint } from '../utils/permissions';
+
+interface PermissionGuardProps {
+  permission: Permission;
+  children: React.ReactElement<{ disabled?: boolean }>;
+  // Render nothing instead of a disabled control
+  hide?: boolean;
+  // Tooltip shown while the control is allowed, e.g. the label of an icon-only button
+  title?: React.ReactNode;
+}
+
+/**
+ * Disables (or hides) its child control when the current user lacks a permission
+ */
+const PermissionGuard: React.FC<PermissionGuardProps> = ({
+  permission,
+  children,
+  hide = false,
+  title,
+}) => {
+  const { permissions, loaded } = usePermissions();
+
+  if (permissions.has(permission)) {
+    return title ? <Tooltip title={title}>{children}</Tooltip> : children;
+  }
+  if (hide) return null;
+
+  const reason = loaded ? getPermissionHint(permission) : 'Checking permissions...';
+
+  // Disabled buttons swallow mouse events, so the tooltip needs a wrapper to attach to
+  return (
+    <Tooltip title={reason}>
+      <span style={{ display: 'inline-block', cursor: 'not-allowed' }}>
+        {React.cloneElement(children, { disabled: true })}
+      </span>
+    </Tooltip>
+  );
+};
+
+export default PermissionGuard;
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, Breadcrumb, Button, Empty, List, Space, Spin, Table, Tag, Typography } from 'antd';
+import { ArrowRightOutlined, PlayCircleOutlined } from '@ant-design/icons';
+import { ColumnsType } from 'antd/es/table';
+import { EnumValueDescriptor, FieldDescriptor, ServiceSchema } from '../types/api';
+import {
+  formatFieldType,
+  getStreamingKind,
+  shortTypeName,
+  STREAMING_KINDS,
+} from '../utils/protoSchema';
+
+const { Text, Paragraph, Link } = Typography;
+
+interface SchemaBrowserProps {
+  schema: ServiceSchema | null;
+  loading?: boolean;
+  error?: string | null;
+  onTryMethod?: ((method: string) => void) | undefined;
+}
+
+/**
+ * Browse a service's methods and drill into their message and enum definitions
+ */
+const SchemaBrowser: React.FC<SchemaBrowserProps> = ({
+  schema,
+  loading = false,
+  error = null,
+  onTryMethod,
+}) => {
+  // Stack of fully-qualified type names navigated through, empty for the method list
+  const [typeStack, setTypeStack] = useState<string[]>([]);
+
+  // Return to the method list when the schema changes
+  useEffect(() => {
+    setTypeStack([]);
+  }, [schema]);
+
+  const openType = useCallback((typeName: string) => {
+    setTypeStack((prev) => [...prev, typeName]);
+  }, []);
+
+  const currentType = typeStack[typeStack.length - 1];
+  const currentMessage = currentType ? schema?.messages[currentType] : undefined;
+  const currentEnum = currentType ? schema?.enums[currentType] : undefined;
+
+  // Render a type name as a link when its definition is in the schema
+  const renderTypeLink = useCallback(
+    (typeName: string, label: string = shortTypeName(typeName)) =>
+      schema?.messages[typeName] || schema?.enums[typeName] ? (
+        <Button
+          type="link"
+          size="small"
+          style={{ padding: 0, height: 'auto' }}
+          onClick={() => openType(typeName)}
+        >
+          {label}
+        </Button>
+      ) : (
+        <Text code>{label}</Text>
+      ),
+    [schema, openType],
+  );
+
+  const fieldColumns: ColumnsType<FieldDescriptor> = useMemo(
+    () => [
+      { title: '#', dataIndex: 'number', key: 'number', width: 50 },
+      {
+        title: 'Field',
+        dataIndex: 'name',
+        key: 'name',
+        render: (name: string, field) => (
+          <Space direction="vertical" size={0}>
+            <Space size={4}>
+              <Text strong>{name}</Text>
+              {field.label === 'required' && <Tag color="red">required</Tag>}
+              {field.oneof && <Tag color="gold">oneof {field.oneof}</Tag>}
+            </Space>
+            {field.comment && (
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                {field.comment}
+              </Text>
+            )}
+          </Space>
+        ),
+      },
+      {
+        title: 'Type',
+        key: 'type',
+        render: (_, field) =>
+          field.typeName ? (
+            renderTypeLink(field.typeName, formatFieldType(field))
+          ) : (
+            <Text code>{formatFieldType(field)}</Text>
+          ),
+      },
+    ],
+    [renderTypeLink],
+  );
+
+  const enumColumns: ColumnsType<EnumValueDescriptor> = [
+    { title: '#', dataIndex: 'number', key: 'number', width: 50 },
+    {
+      title: 'Value',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, value) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{name}</Text>
+          {value.comment && (
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              {value.comment}
+            </Text>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: 24 }}>
+        <Spin tip="Loading schema..." />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <Alert type="warning" message="Schema unavailable" description={error} showIcon />;
+  }
+
+  if (!schema) {
+    return <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No schema available" />;
+  }
+
+  return (
+    <div>
+      <Breadcrumb
+        style={{ marginBottom: 12 }}
+        items={[
+          {
+            title:
+              typeStack.length > 0 ? (
+                <Link onClick={() => setTypeStack([])}>Methods</Link>
+              ) : (
+                'Methods'
+              ),
+          },
+          ...typeStack.map((typeName, index) => ({
+            title:
+              index < typeStack.length - 1 ? (
+                <Link onClick={() => setTypeStack((prev) => prev.slice(0, index + 1))}>
+                  {shortTypeName(typeName)}
+                </Link>
+              ) : (
+                shortTypeName(typeName)
+              ),
+          })),
+        ]}
+      />
+
+      {!currentType && (
+        <List
+          size="small"
+          dataSource={schema.methods}
+          locale={{ emptyText: 'No methods in schema' }}
+          renderItem={(method) => {
+            const kind = STREAMING_KINDS[getStreamingKind(method)];
+            return (
+              <List.Item
+                actions={
+                  onTryMethod
+                    ? [
+                        <Button
+                          key="try"
+                          type="text"
+                          size="small"
+                          icon={<PlayCircleOutlined />}
+                          onClick={() => onTryMethod(method.name)}
+                        />,
+                      ]
+                    : []
+                }
+              >
+                <Space direction="vertical" size={2} style={{ width: '100%' }}>
+                  <Space>
+                    <Tag color="geekblue">{method.name}</Tag>
+                    <Tag color={kind.color}>{kind.label}</Tag>
+                  </Space>
+                  <Space size={4}>
+                    {renderTypeLink(method.inputType)}
+                    <ArrowRightOutlined style={{ color: 'rgba(0, 0, 0, 0.45)' }} />
+                    {renderTypeLink(method.outputType)}
+                  </Space>
+                  {method.comment && (
+                    <Text type="secondary" style={{ fontSize: 12 }}>
+                      {method.comment}
+                    </Text>
+                  )}
+                </Space>
+              </List.Item>
+            );
+          }}
+        />
+      )}
+
+      {currentMessage && (
+        <>
+          <Paragraph>
+            <Tag color="blue">message</Tag>
+            <Text code copyable>
+              {currentMessage.name}
+            </Text>
+          </Paragraph>
+          {currentMessage.comment && (
+            <Paragraph type="secondary">{currentMessage.comment}</Paragraph>
+          )}
+          <Table
+            dataSource={currentMessage.fields}
+            columns={fieldColumns}
+            rowKey="number"
+            size="small"
+            pagination={false}
+            locale={{ emptyText: 'This message has no fields' }}
+          />
+        </>
+      )}
+
+      {currentEnum && (
+        <>
+          <Paragraph>
+            <Tag color="orange">enum</Tag>
+            <Text code copyable>
+              {currentEnum.name}
+            </Text>
+          </Paragraph>
+          {currentEnum.comment && <Paragraph type="secondary">{currentEnum.comment}</Paragraph>}
+          <Table
+            dataSource={currentEnum.values}
+            columns={enumColumns}
+            rowKey="number"
+            size="small"
+            pagination={false}
+          />
+        </>
+      )}
+
+      {currentType && !currentMessage && !currentEnum && (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description={`No definition found for ${currentType}`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SchemaBrowser;
@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Table, Tag, Progress, Typography, Empty, Space } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { MethodStats } from '../types/api';
+import { groupStatsByService, ServiceStatsRow } from '../utils/metrics';
+import { DEFAULT_HEALTH_THRESHOLDS, HealthThresholds } from '../utils/settings';
+import { gradeLatency, gradeSuccessRate, HEALTH_COLORS } from '../utils/health';
+
+const { Text } = Typography;
+
+interface ServiceStatsTableProps {
+  methods?: Record<string, MethodStats> | undefined;
+  loading?: boolean;
+  thresholds?: HealthThresholds;
+}
+
+/**
+ * Sortable per-service stats table that expands into per-method rows
+ */
+const ServiceStatsTable: React.FC<ServiceStatsTableProps> = ({
+  methods,
+  loading = false,
+  thresholds = DEFAULT_HEALTH_THRESHOLDS,
+}) => {
+  const rows = useMemo(() => (methods ? groupStatsByService(methods) : []), [methods]);
+
+  const columns: ColumnsType<ServiceStatsRow> = useMemo(
+    () => [
+      {
+        title: 'Service / Method',
+        dataIndex: 'name',
+        key: 'name',
+        sorter: (a, b) => a.name.localeCompare(b.name),
+        render: (name: string, record: ServiceStatsRow) =>
+          record.children ? (
+            <Space>
+              <Text strong>{name}</Text>
+              <Text type="secondary" style={{ fontSize: '12px' }}>
+                {record.children.length} method{record.children.length !== 1 ? 's' : ''}
+              </Text>
+            </Space>
+          ) : (
+            <Tag color="geekblue">{name}</Tag>
+          ),
+      },
+      {
+        title: 'Requests',
+        dataIndex: 'totalRequests',
+        key: 'totalRequests',
+        width: 120,
+        defaultSortOrder: 'descend',
+        sorter: (a, b) => a.totalRequests - b.totalRequests,
+        render: (value: number) => value.toLocaleString(),
+      },
+      {
+        title: 'Failed',
+        dataIndex: 'failedRequests',
+        key: 'failedRequests',
+        width: 110,
+        sorter: (a, b) => a.failedRequests - b.failedRequests,
+        render: (value: number) => (
+          <Text type={value > 0 ? 'danger' : 'secondary'}>{value.toLocaleString()}</Text>
+        ),
+      },
+      {
+        title: 'Success Rate',
+        dataIndex: 'successRate',
+        key: 'successRate',
+        width: 180,
+        sorter: (a, b) => (a.successRate ?? 100) - (b.successRate ?? 100),
+        render: (rate: number | null) =>
+          rate === null ? (
+            <Text type="secondary">N/A</Text>
+          ) : (
+            <Progress
+              percent={Number(rate.toFixed(1))}
+              size="small"
+              status={
+                {
+                  healthy: 'success' as const,
+                  degraded: 'normal' as const,
+                  unhealthy: 'exception' as const,
+                }[gradeSuccessRate(rate, thresholds)]
+              }
+            />
+          ),
+      },
+      {
+        title: 'Avg Response',
+        dataIndex: 'avgResponseTime',
+        key: 'avgResponseTime',
+        width: 130,
+        sorter: (a, b) => a.avgResponseTime - b.avgResponseTime,
+        render: (value: number) => `${value.toFixed(1)}ms`,
+      },
+      {
+        title: 'p95',
+        dataIndex: 'p95',
+        key: 'p95',
+        width: 110,
+        sorter: (a, b) => (a.p95 ?? 0) - (b.p95 ?? 0),
+        render: (value: number | null) =>
+          value === null ? (
+            <Text type="secondary">N/A</Text>
+          ) : (
+            <Text style={{ color: HEALTH_COLORS[gradeLatency(value, thresholds)] }}>
+              {value.toFixed(1)}ms
+            </Text>
+          ),
+      },
+    ],
+    [thresholds],
+  );
+
+  return (
+    <Table
+      dataSource={rows}
+      columns={columns}
+      rowKey="key"
+      size="small"
+      loading={loading}
+      pagination={rows.length > 10 ? { pageSize: 10 } : false}
+      locale={{
+        emptyText: (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description="No per-method statistics reported by the server"
+          />
+        ),
+      }}
+    />
+  );
+};
+
+export default ServiceStatsTable;
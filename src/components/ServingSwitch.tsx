@@ -0,0 +1,59 @@
+import React from 'react';
+import { Popconfirm, Switch } from 'antd';
+import { usePermission } from '../hooks/usePermission';
+import PermissionGuard from './PermissionGuard';
+
+interface ServingSwitchProps {
+  enabled: boolean;
+  // What is being toggled, e.g. "UserService" or "UserService.GetUser"
+  label: string;
+  pending?: boolean;
+  size?: 'small' | 'default';
+  onChange: (enabled: boolean) => void;
+}
+
+/**
+ * Switch that stops or resumes serving a service or method after confirmation
+ */
+const ServingSwitch: React.FC<ServingSwitchProps> = ({
+  enabled,
+  label,
+  pending = false,
+  size = 'default',
+  onChange,
+}) => {
+  const canManage = usePermission('services:manage');
+
+  const control = (
+    <Switch
+      size={size}
+      checked={enabled}
+      loading={pending}
+      checkedChildren="On"
+      unCheckedChildren="Off"
+    />
+  );
+
+  if (!canManage) {
+    return <PermissionGuard permission="services:manage">{control}</PermissionGuard>;
+  }
+
+  return (
+    <Popconfirm
+      title={enabled ? `Stop serving ${label}?` : `Resume serving ${label}?`}
+      description={
+        enabled
+          ? 'Clients will get UNAVAILABLE until it is enabled again.'
+          : 'Clients will be able to call it again.'
+      }
+      okText={enabled ? 'Disable' : 'Enable'}
+      okButtonProps={{ danger: enabled }}
+      onConfirm={() => onChange(!enabled)}
+      disabled={pending}
+    >
+      {control}
+    </Popconfirm>
+  );
+};
+
+export default ServingSwitch;
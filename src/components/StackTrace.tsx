@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Button, Typography } from 'antd';
+
+const { Text } = Typography;
+
+interface StackTraceProps {
+  stack: string;
+}
+
+const monospace: React.CSSProperties = {
+  fontFamily: 'SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace',
+  fontSize: 12,
+  lineHeight: '20px',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-all',
+};
+
+// Frames from dependencies and Node internals are dimmed and can be hidden
+const isLibraryFrame = (line: string) => /node_modules|node:internal|\(internal\//.test(line);
+
+/**
+ * Stack trace with the error message highlighted and library frames de-emphasized
+ */
+const StackTrace: React.FC<StackTraceProps> = ({ stack }) => {
+  const [showLibraryFrames, setShowLibraryFrames] = useState(false);
+
+  const lines = stack.split('\n');
+  const frameStart = lines.findIndex((line) => /^\s*at\s/.test(line));
+  const messageLines = frameStart < 0 ? lines : lines.slice(0, frameStart);
+  const frames = frameStart < 0 ? [] : lines.slice(frameStart);
+  const hiddenCount = frames.filter(isLibraryFrame).length;
+  const visibleFrames = showLibraryFrames
+    ? frames
+    : frames.filter((frame) => !isLibraryFrame(frame));
+
+  return (
+    <div>
+      <Text type="danger" strong style={monospace}>
+        {messageLines.join('\n')}
+      </Text>
+      <div style={{ ...monospace, paddingLeft: 16 }}>
+        {visibleFrames.map((frame, index) => (
+          <div
+            key={index}
+            style={{ color: isLibraryFrame(frame) ? 'rgba(0, 0, 0, 0.35)' : 'inherit' }}
+          >
+            {frame.trim()}
+          </div>
+        ))}
+      </div>
+      {hiddenCount > 0 && (
+        <Button
+          type="link"
+          size="small"
+          style={{ padding: 0 }}
+          onClick={() => setShowLibraryFrames((prev) => !prev)}
+        >
+          {showLibraryFrames ? 'Hide' : 'Show'} {hiddenCount} library frame
+          {hiddenCount !== 1 ? 's' : ''}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default StackTrace;
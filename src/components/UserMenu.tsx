@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Dropdown, Space } from 'antd';
+import { LogoutOutlined, UserOutlined } from '@ant-design/icons';
+import authService, { AuthSession } from '../services/auth';
+import environmentService from '../services/environments';
+
+/**
+ * Header menu showing the signed-in user with a sign-out action
+ */
+const UserMenu: React.FC = () => {
+  const [session, setSession] = useState<AuthSession | null>(authService.getSession());
+
+  // Follow sign-in, sign-out and switches to environments with their own session
+  useEffect(() => {
+    const unsubscribeAuth = authService.subscribe(setSession);
+    const unsubscribeEnvironment = environmentService.subscribe(() =>
+      setSession(authService.getSession()),
+    );
+    return () => {
+      unsubscribeAuth();
+      unsubscribeEnvironment();
+    };
+  }, []);
+
+  if (!session) return null;
+
+  const items = [
+    {
+      key: 'logout',
+      icon: <LogoutOutlined />,
+      label: 'Sign out',
+      onClick: () => authService.logout(),
+    },
+  ];
+
+  return (
+    <Dropdown menu={{ items }} trigger={['click']}>
+      <Button type="text" size="small" style={{ color: 'white' }}>
+        <Space size={4}>
+          <UserOutlined />
+          {session.user?.name || session.user?.username || 'Signed in'}
+        </Space>
+      </Button>
+    </Dropdown>
+  );
+};
+
+export default UserMenu;
@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { Empty, Tooltip, Typography } from 'antd';
+import { LatencyBucket } from '../../types/api';
+
+const { Text } = Typography;
+
+interface LatencyHistogramProps {
+  buckets?: LatencyBucket[] | undefined;
+  height?: number;
+  // Latency (ms) at or above which buckets are highlighted
+  highlightFrom?: number;
+}
+
+/**
+ * Format a bucket's range label from its upper bound and the previous bucket's
+ */
+const bucketLabel = (bucket: LatencyBucket, previous?: LatencyBucket): string => {
+  if (bucket.le === null) return `> ${previous?.le ?? 0}ms`;
+  if (!previous || previous.le === null) return `≤ ${bucket.le}ms`;
+  return `${previous.le}–${bucket.le}ms`;
+};
+
+/**
+ * Vertical bar histogram of request latencies
+ */
+const LatencyHistogram: React.FC<LatencyHistogramProps> = ({
+  buckets,
+  height = 180,
+  highlightFrom,
+}) => {
+  const { total, max } = useMemo(() => {
+    const counts = (buckets ?? []).map((bucket) => bucket.count);
+    return {
+      total: counts.reduce((sum, count) => sum + count, 0),
+      max: Math.max(0, ...counts),
+    };
+  }, [buckets]);
+
+  if (!buckets || buckets.length === 0 || total === 0) {
+    return (
+      <Empty
+        image={Empty.PRESENTED_IMAGE_SIMPLE}
+        description="No latency distribution reported by the server"
+      />
+    );
+  }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: 4, height }}>
+        {buckets.map((bucket, i) => {
+          const label = bucketLabel(bucket, buckets[i - 1]);
+          const lowerBound = buckets[i - 1]?.le ?? 0;
+          const highlighted = highlightFrom !== undefined && lowerBound >= highlightFrom;
+
+          return (
+            <Tooltip
+              key={label}
+              title={`${label}: ${bucket.count.toLocaleString()} requests (${(
+                (bucket.count / total) *
+                100
+              ).toFixed(1)}%)`}
+            >
+              <div
+                style={{
+                  flex: 1,
+                  height: `${max > 0 ? (bucket.count / max) * 100 : 0}%`,
+                  minHeight: bucket.count > 0 ? 2 : 0,
+                  background: highlighted ? '#ff7875' : '#69b1ff',
+                  borderRadius: '2px 2px 0 0',
+                  transition: 'height 0.3s',
+                }}
+              />
+            </Tooltip>
+          );
+        })}
+      </div>
+      <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+        {buckets.map((bucket, i) => (
+          <Text
+            key={i}
+            type="secondary"
+            style={{ flex: 1, fontSize: 10, textAlign: 'center', overflow: 'hidden' }}
+            ellipsis
+          >
+            {bucketLabel(bucket, buckets[i - 1])}
+          </Text>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LatencyHistogram;
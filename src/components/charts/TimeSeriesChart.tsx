@@ -0,0 +1,344 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Empty, Space, Typography } from 'antd';
+import { format } from 'date-fns';
+
+const { Text } = Typography;
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export interface ChartDatum {
+  timestamp: number; // bucket start (epoch ms)
+  values: Record<string, number | null>;
+}
+
+interface TimeSeriesChartProps {
+  data: ChartDatum[];
+  series: ChartSeries[];
+  variant: 'line' | 'stacked-bar';
+  bucketMs: number;
+  height?: number;
+  formatValue?: (value: number) => string;
+  emptyDescription?: string;
+  // Enables dragging across buckets to select a range; called with its bounds (epoch ms)
+  onSelectRange?: (from: number, to: number) => void;
+}
+
+const PADDING = { top: 12, right: 16, bottom: 24, left: 52 };
+const Y_TICKS = 4;
+const X_TICKS = 6;
+
+/**
+ * Round a maximum up to a value that gives readable axis ticks
+ */
+const niceMax = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const normalized = value / magnitude;
+  const step = [1, 2, 2.5, 5, 10].find((s) => normalized <= s) ?? 10;
+  return step * magnitude;
+};
+
+const defaultFormatValue = (value: number) =>
+  Number.isInteger(value) ? value.toLocaleString() : value.toFixed(1);
+
+/**
+ * Lightweight SVG time-series chart rendering either lines or stacked bars
+ */
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
+  data,
+  series,
+  variant,
+  bucketMs,
+  height = 220,
+  formatValue = defaultFormatValue,
+  emptyDescription = 'No data recorded for this time window yet',
+  onSelectRange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+
+  // Track container width so the chart fills its card
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver((entries) => {
+      setWidth(entries[0]?.contentRect.width ?? 0);
+    });
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, []);
+
+  const plotWidth = Math.max(width - PADDING.left - PADDING.right, 0);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const slotWidth = data.length > 0 ? plotWidth / data.length : 0;
+
+  const hasData = useMemo(
+    () =>
+      data.some((datum) =>
+        series.some((s) => datum.values[s.key] !== null && datum.values[s.key] !== 0),
+      ),
+    [data, series],
+  );
+
+  const yMax = useMemo(() => {
+    const maxValue = data.reduce((max, datum) => {
+      const values = series.map((s) => datum.values[s.key] ?? 0);
+      const datumMax =
+        variant === 'stacked-bar'
+          ? values.reduce((sum, value) => sum + value, 0)
+          : Math.max(0, ...values);
+      return Math.max(max, datumMax);
+    }, 0);
+    return niceMax(maxValue);
+  }, [data, series, variant]);
+
+  const scaleY = (value: number) => PADDING.top + plotHeight - (value / yMax) * plotHeight;
+  const timeFormat =
+    bucketMs < 60 * 1000 ? 'HH:mm:ss' : bucketMs < 60 * 60 * 1000 ? 'HH:mm' : 'MMM dd HH:mm';
+
+  const xTickIndexes = useMemo(() => {
+    if (data.length === 0) return [];
+    const step = Math.max(1, Math.ceil(data.length / X_TICKS));
+    return data.map((_, i) => i).filter((i) => i % step === 0);
+  }, [data]);
+
+  const getIndexAt = (e: React.MouseEvent<SVGSVGElement>): number | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left - PADDING.left;
+    const index = Math.floor(x / slotWidth);
+    return index >= 0 && index < data.length ? index : null;
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = getIndexAt(e);
+    setHoverIndex(index);
+    if (selection && index !== null) {
+      setSelection({ ...selection, end: index });
+    }
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = getIndexAt(e);
+    if (!onSelectRange || index === null) return;
+    // Keep the browser from selecting the axis labels while dragging
+    e.preventDefault();
+    setSelection({ start: index, end: index });
+  };
+
+  const handleMouseUp = () => {
+    if (!selection || !onSelectRange) return;
+    const first = data[Math.min(selection.start, selection.end)];
+    const last = data[Math.max(selection.start, selection.end)];
+    setSelection(null);
+    if (first && last) {
+      onSelectRange(first.timestamp, last.timestamp + bucketMs);
+    }
+  };
+
+  const renderBars = () =>
+    data.map((datum, i) => {
+      let stackedValue = 0;
+      const barWidth = Math.max(slotWidth * 0.7, 1);
+      const x = PADDING.left + i * slotWidth + (slotWidth - barWidth) / 2;
+
+      return (
+        <g key={datum.timestamp}>
+          {series.map((s) => {
+            const value = datum.values[s.key] ?? 0;
+            if (value <= 0) return null;
+            const y = scaleY(stackedValue + value);
+            const barHeight = scaleY(stackedValue) - y;
+            stackedValue += value;
+            return (
+              <rect key={s.key} x={x} y={y} width={barWidth} height={barHeight} fill={s.color} />
+            );
+          })}
+        </g>
+      );
+    });
+
+  const renderLines = () =>
+    series.map((s) => {
+      // Break the line wherever a bucket has no value
+      const segments: string[] = [];
+      let current = '';
+      data.forEach((datum, i) => {
+        const value = datum.values[s.key];
+        if (value === null || value === undefined) {
+          if (current) segments.push(current);
+          current = '';
+          return;
+        }
+        const x = PADDING.left + i * slotWidth + slotWidth / 2;
+        current += `${current ? 'L' : 'M'}${x},${scaleY(value)}`;
+      });
+      if (current) segments.push(current);
+
+      return (
+        <g key={s.key}>
+          {segments.map((d) => (
+            <path key={d} d={d} fill="none" stroke={s.color} strokeWidth={2} />
+          ))}
+          {data.map((datum, i) =>
+            datum.values[s.key] !== null && datum.values[s.key] !== undefined ? (
+              <circle
+                key={datum.timestamp}
+                cx={PADDING.left + i * slotWidth + slotWidth / 2}
+                cy={scaleY(datum.values[s.key]!)}
+                r={hoverIndex === i ? 4 : 2}
+                fill={s.color}
+              />
+            ) : null,
+          )}
+        </g>
+      );
+    });
+
+  const hoveredDatum = hoverIndex !== null ? data[hoverIndex] : undefined;
+
+  return (
+    <div ref={containerRef} style={{ position: 'relative', width: '100%' }}>
+      {!hasData ? (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description={emptyDescription}
+          style={{ height, display: 'flex', flexDirection: 'column', justifyContent: 'center' }}
+        />
+      ) : (
+        width > 0 && (
+          <svg
+            width={width}
+            height={height}
+            style={{ cursor: onSelectRange ? 'crosshair' : undefined }}
+            onMouseMove={handleMouseMove}
+            onMouseDown={handleMouseDown}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => {
+              setHoverIndex(null);
+              setSelection(null);
+            }}
+          >
+            {/* Horizontal grid lines and y-axis labels */}
+            {Array.from({ length: Y_TICKS + 1 }, (_, i) => {
+              const value = (yMax / Y_TICKS) * i;
+              const y = scaleY(value);
+              return (
+                <g key={i}>
+                  <line
+                    x1={PADDING.left}
+                    x2={PADDING.left + plotWidth}
+                    y1={y}
+                    y2={y}
+                    stroke="rgba(0, 0, 0, 0.06)"
+                  />
+                  <text
+                    x={PADDING.left - 6}
+                    y={y}
+                    textAnchor="end"
+                    dominantBaseline="middle"
+                    fontSize={11}
+                    fill="rgba(0, 0, 0, 0.45)"
+                  >
+                    {formatValue(value)}
+                  </text>
+                </g>
+              );
+            })}
+
+            {/* Hover highlight */}
+            {hoverIndex !== null && (
+              <rect
+                x={PADDING.left + hoverIndex * slotWidth}
+                y={PADDING.top}
+                width={slotWidth}
+                height={plotHeight}
+                fill="rgba(0, 0, 0, 0.04)"
+              />
+            )}
+
+            {variant === 'stacked-bar' ? renderBars() : renderLines()}
+
+            {/* Range being dragged */}
+            {selection && (
+              <rect
+                x={PADDING.left + Math.min(selection.start, selection.end) * slotWidth}
+                y={PADDING.top}
+                width={(Math.abs(selection.end - selection.start) + 1) * slotWidth}
+                height={plotHeight}
+                fill="rgba(22, 119, 255, 0.15)"
+                stroke="rgba(22, 119, 255, 0.6)"
+              />
+            )}
+
+            {/* X-axis labels */}
+            {xTickIndexes.map((i) => (
+              <text
+                key={i}
+                x={PADDING.left + i * slotWidth + slotWidth / 2}
+                y={height - 6}
+                textAnchor="middle"
+                fontSize={11}
+                fill="rgba(0, 0, 0, 0.45)"
+              >
+                {format(new Date(data[i]!.timestamp), timeFormat)}
+              </text>
+            ))}
+          </svg>
+        )
+      )}
+
+      {hoveredDatum && hoverIndex !== null && (
+        <div
+          style={{
+            position: 'absolute',
+            top: PADDING.top,
+            left: Math.min(PADDING.left + (hoverIndex + 1) * slotWidth + 8, width - 180),
+            background: '#fff',
+            border: '1px solid #f0f0f0',
+            borderRadius: 4,
+            boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)',
+            padding: '6px 10px',
+            pointerEvents: 'none',
+            minWidth: 160,
+            fontSize: 12,
+          }}
+        >
+          <div style={{ fontWeight: 500, marginBottom: 4 }}>
+            {format(new Date(hoveredDatum.timestamp), 'MMM dd, HH:mm:ss')}
+          </div>
+          {series.map((s) => {
+            const value = hoveredDatum.values[s.key];
+            return (
+              <div key={s.key} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>
+                  <span style={{ color: s.color }}>■</span> {s.label}
+                </span>
+                <span style={{ marginLeft: 12 }}>
+                  {value === null || value === undefined ? '—' : formatValue(value)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Space size="middle" style={{ marginTop: 4, paddingLeft: PADDING.left }}>
+        {series.map((s) => (
+          <Text key={s.key} type="secondary" style={{ fontSize: 12 }}>
+            <span style={{ color: s.color }}>■</span> {s.label}
+          </Text>
+        ))}
+      </Space>
+    </div>
+  );
+};
+
+export default TimeSeriesChart;
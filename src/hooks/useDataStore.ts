@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import dataStore, { DataState, ResourceKey } from '../services/dataStore';
+
+const subscribe = (onChange: () => void) => dataStore.subscribe(onChange);
+
+/**
+ * Select a value from the shared data store, re-rendering when it changes
+ *
+ * @param selector - Picks the value to read; it must return the same reference for unchanged data
+ */
+export const useDataStore = <T>(selector: (state: DataState) => T): T =>
+  useSyncExternalStore(subscribe, () => selector(dataStore.getState()));
+
+/**
+ * A store resource, loaded on first use and kept refreshed while the component is mounted
+ */
+export const useResource = <K extends ResourceKey>(key: K): DataState[K] => {
+  useEffect(() => dataStore.retain(key), [key]);
+  return useDataStore((state) => state[key]);
+};
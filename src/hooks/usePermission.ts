@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { Permission } from '../types/api';
+import permissionService, { PermissionState } from '../services/permissions';
+
+/**
+ * Current permission state, updated when the user, session or environment changes
+ */
+export const usePermissions = (): PermissionState => {
+  const [state, setState] = useState<PermissionState>(permissionService.getState());
+
+  useEffect(() => {
+    setState(permissionService.getState());
+    return permissionService.subscribe(setState);
+  }, []);
+
+  return state;
+};
+
+/**
+ * Whether the current user has a permission; false until permissions have loaded
+ */
+export const usePermission = (permission: Permission): boolean =>
+  usePermissions().permissions.has(permission);
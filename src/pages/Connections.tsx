@@ -1,4 +1,5 @@
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import {
   Table,
   Typography,
@@ -14,6 +15,8 @@ import {
   Empty,
   Input,
   Spin,
+  List,
+  notification,
 } from 'antd';
 import {
   ReloadOutlined,
@@ -23,118 +26,141 @@ import {
   ClockCircleOutlined,
   SearchOutlined,
   LinkOutlined,
+  DisconnectOutlined,
+  PauseCircleOutlined,
+  AuditOutlined,
+  SyncOutlined,
+  DownloadOutlined,
 } from '@ant-design/icons';
-import { GrpcConnection } from '../types/api';
+import { AuditEntry, ConnectionAction, GrpcConnection } from '../types/api';
 import { format, formatDistanceToNow } from 'date-fns';
+import dataStore from '../services/dataStore';
 import ApiService from '../services/api';
-import socketService from '../services/socket';
 import { ColumnsType } from 'antd/es/table';
+import ConnectionActionModal from '../components/ConnectionActionModal';
+import ExportModal from '../components/ExportModal';
+import PermissionGuard from '../components/PermissionGuard';
+import { ExportColumn } from '../utils/export';
+import { getConnectionPath, withSearchParam } from '../utils/urlState';
+import { useResource } from '../hooks/useDataStore';
+import DataFreshness from '../components/DataFreshness';
 
 const { Title, Text } = Typography;
 
+// Fields offered when exporting connections
+const CONNECTION_EXPORT_COLUMNS: ExportColumn<GrpcConnection>[] = [
+  { key: 'id', label: 'ID', value: (connection) => connection.id },
+  { key: 'clientId', label: 'Client ID', value: (connection) => connection.clientId },
+  { key: 'service', label: 'Service', value: (connection) => connection.service },
+  { key: 'url', label: 'URL', value: (connection) => connection.url },
+  { key: 'status', label: 'Status', value: (connection) => connection.status },
+  { key: 'established', label: 'Established', value: (connection) => connection.established },
+  { key: 'lastActivity', label: 'Last Activity', value: (connection) => connection.lastActivity },
+  {
+    key: 'metadata',
+    label: 'Metadata',
+    value: (connection) => connection.metadata,
+    defaultSelected: false,
+  },
+];
+
 /**
  * Connections component displays and manages gRPC connections
  */
 const Connections: React.FC = () => {
   // State management
-  const [connections, setConnections] = useState<GrpcConnection[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { data: connections, loading, error, updatedAt } = useResource('connections');
   const [drawerVisible, setDrawerVisible] = useState(false);
   const [selectedConnection, setSelectedConnection] = useState<GrpcConnection | null>(null);
-  const [searchText, setSearchText] = useState('');
-  const [refreshInterval, setRefreshInterval] = useState<number | null>(null);
+  const [pendingAction, setPendingAction] = useState<ConnectionAction | null>(null);
+  // Audit entries for the open connection; null while loading or when the backend keeps none
+  const [activity, setActivity] = useState<AuditEntry[] | null>(null);
+  const [activityVersion, setActivityVersion] = useState(0);
+  const [exportOpen, setExportOpen] = useState(false);
+
+  // The open connection and search text live in the URL so they can be linked and bookmarked
+  const { connectionId } = useParams<{ connectionId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchText = searchParams.get('q') ?? '';
+  const navigate = useNavigate();
+  const location = useLocation();
 
-  // Load refresh interval from settings
+  // Load the backend's audit entries for the open connection, again after each action on it
   useEffect(() => {
-    const savedSettings = localStorage.getItem('grpcDashboardSettings');
-    if (savedSettings) {
-      try {
-        const { refreshInterval } = JSON.parse(savedSettings);
-        if (refreshInterval > 0) {
-          setRefreshInterval(refreshInterval * 1000); // Convert to milliseconds
-        }
-      } catch (error) {
-        console.error('Failed to parse saved settings:', error);
-      }
-    }
-  }, []);
+    setActivity(null);
+    if (!selectedConnection?.id) return;
 
-  // Fetch connections data
-  const fetchConnections = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await ApiService.getConnections();
-      setConnections(data);
-    } catch (error) {
-      console.error('Error fetching connections:', error);
-      setError('Failed to fetch connections. Please try again.');
-    } finally {
-      setLoading(false);
-    }
+    let cancelled = false;
+    ApiService.getAuditLog(selectedConnection.id)
+      .then((entries) => {
+        if (!cancelled) setActivity(entries);
+      })
+      .catch((error) => console.error('Error fetching connection activity:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedConnection?.id, activityVersion]);
+
+  // Reflect live status changes in the open drawer
+  useEffect(() => {
+    setSelectedConnection((prev) => (prev && connections.find((c) => c.id === prev.id)) || prev);
+  }, [connections]);
+
+  // Reload connections from the backend
+  const fetchConnections = useCallback(() => {
+    dataStore.refresh('connections');
   }, []);
 
-  // Handle connection updates from WebSocket
+  // Apply a connection returned after disconnecting or draining it
   const handleConnectionUpdate = useCallback((connection: GrpcConnection) => {
-    setConnections((prev) => {
-      const index = prev.findIndex((c) => c.id === connection.id);
-      if (index >= 0) {
-        // Update existing connection
-        const newConnections = [...prev];
-        newConnections[index] = connection;
-        return newConnections;
-      } else {
-        // Add new connection
-        return [...prev, connection];
-      }
-    });
+    dataStore.updateConnection(connection);
+    setActivityVersion((version) => version + 1);
   }, []);
 
-  // Handle bulk connections update from WebSocket
-  const handleConnectionsUpdate = useCallback((connectionsData: GrpcConnection[]) => {
-    setConnections(connectionsData);
-  }, []);
+  // Update the search text in the URL without adding history entries per keystroke
+  const setSearchText = useCallback(
+    (value: string) => {
+      setSearchParams((params) => withSearchParam(params, 'q', value), { replace: true });
+    },
+    [setSearchParams],
+  );
 
-  // Set up WebSocket listeners and fetch data on component mount
-  useEffect(() => {
-    fetchConnections();
+  // Show connection details
+  const showConnectionDetails = useCallback(
+    (connection: GrpcConnection) => {
+      navigate({ pathname: getConnectionPath(connection.id), search: location.search });
+    },
+    [navigate, location.search],
+  );
 
-    // Register socket event handlers
-    const unsubscribeConnection = socketService.on('connection', handleConnectionUpdate);
-    const unsubscribeConnections = socketService.on('connections', handleConnectionsUpdate);
+  // Close connection details, keeping the search
+  const closeConnectionDetails = useCallback(() => {
+    navigate({ pathname: getConnectionPath(), search: location.search });
+  }, [navigate, location.search]);
 
-    // Request data from WebSocket
-    if (socketService.isConnected()) {
-      socketService.getConnections();
+  // Open the drawer for the connection in the URL once connections have loaded
+  useEffect(() => {
+    if (!connectionId) {
+      setDrawerVisible(false);
+      return;
     }
-
-    // Auto-refresh setup
-    let intervalId: number | undefined;
-    if (refreshInterval) {
-      intervalId = window.setInterval(() => {
-        if (socketService.isConnected()) {
-          socketService.getConnections();
-        } else {
-          fetchConnections();
-        }
-      }, refreshInterval);
+    if (selectedConnection?.id === connectionId) {
+      setDrawerVisible(true);
+      return;
     }
 
-    // Clean up on unmount
-    return () => {
-      unsubscribeConnection();
-      unsubscribeConnections();
-      if (intervalId) clearInterval(intervalId);
-      ApiService.abortAllRequests(); // Abort any pending fetch requests
-    };
-  }, [fetchConnections, handleConnectionUpdate, handleConnectionsUpdate, refreshInterval]);
-
-  // Show connection details
-  const showConnectionDetails = useCallback((connection: GrpcConnection) => {
-    setSelectedConnection(connection);
-    setDrawerVisible(true);
-  }, []);
+    const connection = connections.find((c) => c.id === connectionId);
+    if (connection) {
+      setSelectedConnection(connection);
+      setDrawerVisible(true);
+    } else if (updatedAt !== null && !loading) {
+      notification.error({
+        message: 'Connection Not Found',
+        description: `Connection "${connectionId}" is not known to the server.`,
+      });
+      navigate(getConnectionPath(), { replace: true });
+    }
+  }, [connectionId, connections, selectedConnection?.id, updatedAt, loading, navigate]);
 
   // Format date for display
   const formatDate = useCallback((dateStr: string) => {
@@ -165,6 +191,10 @@ const Connections: React.FC = () => {
         color = 'green';
         icon = <CheckCircleOutlined />;
         break;
+      case 'draining':
+        color = 'processing';
+        icon = <SyncOutlined spin />;
+        break;
       case 'disconnected':
         color = 'orange';
         icon = <ClockCircleOutlined />;
@@ -182,7 +212,10 @@ const Connections: React.FC = () => {
     return (
       <Space>
         {icon}
-        <Badge status={color as 'success' | 'warning' | 'error' | 'default'} text={text} />
+        <Badge
+          status={color as 'success' | 'processing' | 'warning' | 'error' | 'default'}
+          text={text}
+        />
       </Space>
     );
   }, []);
@@ -264,6 +297,7 @@ const Connections: React.FC = () => {
         sorter: (a, b) => a.status.localeCompare(b.status),
         filters: [
           { text: 'Connected', value: 'connected' },
+          { text: 'Draining', value: 'draining' },
           { text: 'Disconnected', value: 'disconnected' },
           { text: 'Error', value: 'error' },
         ],
@@ -337,6 +371,7 @@ const Connections: React.FC = () => {
       <div className="table-header-actions">
         <Title level={4}>gRPC Connections</Title>
         <Space>
+          <DataFreshness resource="connections" />
           <Input
             placeholder="Search connections"
             prefix={<SearchOutlined />}
@@ -345,6 +380,15 @@ const Connections: React.FC = () => {
             allowClear
             style={{ width: 250 }}
           />
+          <PermissionGuard permission="data:export">
+            <Button
+              icon={<DownloadOutlined />}
+              onClick={() => setExportOpen(true)}
+              disabled={filteredConnections.length === 0}
+            >
+              Export
+            </Button>
+          </PermissionGuard>
           <Button
             type="primary"
             icon={<ReloadOutlined />}
@@ -414,9 +458,11 @@ const Connections: React.FC = () => {
                 color={
                   selectedConnection.status === 'connected'
                     ? 'green'
-                    : selectedConnection.status === 'disconnected'
-                      ? 'orange'
-                      : 'red'
+                    : selectedConnection.status === 'draining'
+                      ? 'blue'
+                      : selectedConnection.status === 'disconnected'
+                        ? 'orange'
+                        : 'red'
                 }
               >
                 {selectedConnection.status.toUpperCase()}
@@ -425,13 +471,36 @@ const Connections: React.FC = () => {
           </Space>
         }
         placement="right"
-        onClose={() => setDrawerVisible(false)}
+        onClose={closeConnectionDetails}
         open={drawerVisible}
         width={550}
         footer={
-          <div style={{ textAlign: 'right' }}>
-            <Button onClick={() => setDrawerVisible(false)}>Close</Button>
-          </div>
+          <Space style={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <PermissionGuard permission="connections:manage">
+              <Button
+                icon={<PauseCircleOutlined />}
+                onClick={() => setPendingAction('drain')}
+                disabled={selectedConnection?.status !== 'connected'}
+              >
+                Drain
+              </Button>
+            </PermissionGuard>
+            <PermissionGuard permission="connections:manage">
+              <Button
+                danger
+                icon={<DisconnectOutlined />}
+                onClick={() => setPendingAction('disconnect')}
+                disabled={
+                  !selectedConnection ||
+                  selectedConnection.status === 'disconnected' ||
+                  selectedConnection.status === 'error'
+                }
+              >
+                Disconnect
+              </Button>
+            </PermissionGuard>
+            <Button onClick={closeConnectionDetails}>Close</Button>
+          </Space>
         }
       >
         {selectedConnection && (
@@ -480,9 +549,62 @@ const Connections: React.FC = () => {
                 </Card>
               </>
             )}
+
+            {activity && activity.length > 0 && (
+              <>
+                <Title level={5} style={{ marginTop: 24, marginBottom: 16 }}>
+                  <AuditOutlined /> Activity
+                </Title>
+                <List
+                  size="small"
+                  bordered
+                  dataSource={activity}
+                  renderItem={(entry) => (
+                    <List.Item>
+                      <List.Item.Meta
+                        title={
+                          <Space>
+                            <Tag color={entry.outcome === 'success' ? 'green' : 'red'}>
+                              {entry.action.replace('connection.', '')}
+                            </Tag>
+                            <Text>by {entry.actor}</Text>
+                          </Space>
+                        }
+                        description={
+                          <>
+                            <Tooltip title={formatDate(entry.timestamp)}>
+                              {formatTimeAgo(entry.timestamp)}
+                            </Tooltip>
+                            {entry.reason && <div>Reason: {entry.reason}</div>}
+                            {entry.error && <Text type="danger">{entry.error}</Text>}
+                          </>
+                        }
+                      />
+                    </List.Item>
+                  )}
+                />
+              </>
+            )}
           </>
         )}
       </Drawer>
+
+      <ExportModal
+        open={exportOpen}
+        title="Export Connections"
+        rows={filteredConnections}
+        columns={CONNECTION_EXPORT_COLUMNS}
+        baseName="grpc-connections"
+        itemLabel="connections"
+        onClose={() => setExportOpen(false)}
+      />
+
+      <ConnectionActionModal
+        connection={pendingAction ? selectedConnection : null}
+        action={pendingAction}
+        onClose={() => setPendingAction(null)}
+        onDone={handleConnectionUpdate}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   Card,
   Row,
@@ -15,7 +15,7 @@ import {
   Empty,
   Badge,
 } from 'antd';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import {
   CheckCircleOutlined,
   CloseCircleOutlined,
@@ -28,172 +28,64 @@ import {
 } from '@ant-design/icons';
 import { GrpcServiceInfo, LogEntry, StatsData } from '../types/api';
 import { format } from 'date-fns';
-import ApiService from '../services/api';
-import socketService from '../services/socket';
+import dataStore from '../services/dataStore';
+import { useDataStore, useResource } from '../hooks/useDataStore';
+import DataFreshness from '../components/DataFreshness';
 import { ColumnsType } from 'antd/es/table';
+import { getSettings } from '../utils/settings';
+import { getHealthStatus, HEALTH_COLORS } from '../utils/health';
+import { calculateSuccessRate } from '../utils/metrics';
+import { getServicePath } from '../utils/urlState';
 
 const { Title, Text } = Typography;
 
+// Number of recent log entries shown on the dashboard
+const RECENT_LOG_COUNT = 5;
+
+const EMPTY_STATS: StatsData = {
+  totalRequests: 0,
+  successfulRequests: 0,
+  failedRequests: 0,
+  avgResponseTime: 0,
+};
+
 /**
  * Dashboard component showing an overview of the gRPC system
  */
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
 
-  // State management
-  const [services, setServices] = useState<GrpcServiceInfo[]>([]);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [stats, setStats] = useState<StatsData>({
-    totalRequests: 0,
-    successfulRequests: 0,
-    failedRequests: 0,
-    avgResponseTime: 0,
-  });
-  const [loading, setLoading] = useState({
-    services: false,
-    logs: false,
-    stats: false,
-  });
-  const [errors, setErrors] = useState({
-    services: null as string | null,
-    logs: null as string | null,
-    stats: null as string | null,
-  });
-  const [refreshInterval, setRefreshInterval] = useState<number | null>(null);
-  const [socketConnected, setSocketConnected] = useState(socketService.isConnected());
-
-  // Load refresh interval from settings
-  useEffect(() => {
-    const savedSettings = localStorage.getItem('grpcDashboardSettings');
-    if (savedSettings) {
-      try {
-        const { refreshInterval } = JSON.parse(savedSettings);
-        if (refreshInterval > 0) {
-          setRefreshInterval(refreshInterval * 1000); // Convert to milliseconds
-        }
-      } catch (error) {
-        console.error('Failed to parse saved settings:', error);
-      }
-    }
-
-    // Set up socket connection listener
-    const connectHandler = () => setSocketConnected(true);
-    const disconnectHandler = () => setSocketConnected(false);
-
-    socketService.on('connect', connectHandler);
-    socketService.on('disconnect', disconnectHandler);
-
-    return () => {
-      socketService.off('connect', connectHandler);
-      socketService.off('disconnect', disconnectHandler);
-    };
-  }, []);
-
-  // Fetch services data
-  const fetchServices = useCallback(async () => {
-    try {
-      setLoading((prev) => ({ ...prev, services: true }));
-      setErrors((prev) => ({ ...prev, services: null }));
-      const servicesData = await ApiService.getServices();
-      setServices(servicesData);
-    } catch (error) {
-      console.error('Error fetching services:', error);
-      setErrors((prev) => ({ ...prev, services: 'Failed to fetch services data' }));
-    } finally {
-      setLoading((prev) => ({ ...prev, services: false }));
-    }
-  }, []);
-
-  // Fetch logs data
-  const fetchLogs = useCallback(async () => {
-    try {
-      setLoading((prev) => ({ ...prev, logs: true }));
-      setErrors((prev) => ({ ...prev, logs: null }));
-      const logsData = await ApiService.getLogs({ limit: 5 });
-      setLogs(logsData);
-    } catch (error) {
-      console.error('Error fetching logs:', error);
-      setErrors((prev) => ({ ...prev, logs: 'Failed to fetch recent logs' }));
-    } finally {
-      setLoading((prev) => ({ ...prev, logs: false }));
-    }
-  }, []);
-
-  // Fetch stats data
-  const fetchStats = useCallback(async () => {
-    try {
-      setLoading((prev) => ({ ...prev, stats: true }));
-      setErrors((prev) => ({ ...prev, stats: null }));
-      const statsData = await ApiService.getStats();
-      setStats(statsData);
-    } catch (error) {
-      console.error('Error fetching stats:', error);
-      setErrors((prev) => ({ ...prev, stats: 'Failed to fetch statistics data' }));
-    } finally {
-      setLoading((prev) => ({ ...prev, stats: false }));
-    }
-  }, []);
-
-  // Fetch all data
+  // Shared data, loaded once and kept live by the store
+  const servicesResource = useResource('services');
+  const logsResource = useResource('logs');
+  const statsResource = useResource('stats');
+  const socketConnected = useDataStore((state) => state.socketConnected);
+  const [thresholds] = useState(() => getSettings().healthThresholds);
+
+  const services = servicesResource.data;
+  const logs = useMemo(() => logsResource.data.slice(0, RECENT_LOG_COUNT), [logsResource.data]);
+  const stats: StatsData = statsResource.data ?? EMPTY_STATS;
+
+  const loading = {
+    services: servicesResource.loading,
+    logs: logsResource.loading,
+    stats: statsResource.loading,
+  };
+  const errors = {
+    services: servicesResource.error ? 'Failed to fetch services data' : null,
+    logs: logsResource.error ? 'Failed to fetch recent logs' : null,
+    stats: statsResource.error ? 'Failed to fetch statistics data' : null,
+  };
+
+  // Reload everything shown on the dashboard
   const fetchData = useCallback(async () => {
-    await Promise.all([fetchServices(), fetchLogs(), fetchStats()]);
-  }, [fetchServices, fetchLogs, fetchStats]);
-
-  // Handle service updates from WebSocket
-  const handleServicesUpdate = useCallback((servicesData: GrpcServiceInfo[]) => {
-    setServices(servicesData);
-  }, []);
-
-  // Handle log updates from WebSocket
-  const handleLogUpdate = useCallback((log: LogEntry) => {
-    setLogs((prev) => [log, ...prev].slice(0, 5));
+    await Promise.all([
+      dataStore.refresh('services'),
+      dataStore.refresh('logs'),
+      dataStore.refresh('stats'),
+    ]);
   }, []);
 
-  // Handle stats updates from WebSocket
-  const handleStatsUpdate = useCallback((statsData: StatsData) => {
-    setStats(statsData);
-  }, []);
-
-  // Set up WebSocket listeners and fetch data on component mount
-  useEffect(() => {
-    fetchData();
-
-    // Register socket event handlers
-    const unsubscribeServices = socketService.on('services', handleServicesUpdate);
-    const unsubscribeLog = socketService.on('log', handleLogUpdate);
-    const unsubscribeStats = socketService.on('stats', handleStatsUpdate);
-
-    // Request data from WebSocket if connected
-    if (socketService.isConnected()) {
-      socketService.getServices();
-      socketService.getLogs({ limit: 5 });
-      socketService.getStats();
-    }
-
-    // Auto-refresh setup
-    let intervalId: number | undefined;
-    if (refreshInterval) {
-      intervalId = window.setInterval(() => {
-        if (socketService.isConnected()) {
-          socketService.getServices();
-          socketService.getLogs({ limit: 5 });
-          socketService.getStats();
-        } else {
-          fetchData();
-        }
-      }, refreshInterval);
-    }
-
-    // Clean up on unmount
-    return () => {
-      unsubscribeServices();
-      unsubscribeLog();
-      unsubscribeStats();
-      if (intervalId) clearInterval(intervalId);
-      ApiService.abortAllRequests(); // Abort any pending fetch requests
-    };
-  }, [fetchData, handleServicesUpdate, handleLogUpdate, handleStatsUpdate, refreshInterval]);
-
   // Format date for display
   const formatDate = useCallback((dateStr: string) => {
     try {
@@ -222,26 +114,10 @@ const Dashboard: React.FC = () => {
   }, []);
 
   // Calculate success rate percentage
-  const successRate = useMemo(() => {
-    if (stats.totalRequests === 0) return 0;
-    return ((stats.successfulRequests / stats.totalRequests) * 100).toFixed(1);
-  }, [stats.totalRequests, stats.successfulRequests]);
-
-  // Calculate if performance is good or bad
-  const performanceLevel = useMemo(() => {
-    // Success rate threshold
-    const successRateVal = stats.totalRequests ? stats.successfulRequests / stats.totalRequests : 0;
-    const successRateStatus = successRateVal > 0.95 ? 'good' : 'bad';
-
-    // Response time threshold
-    const responseTimeStatus = stats.avgResponseTime < 50 ? 'good' : 'bad';
+  const successRate = useMemo(() => calculateSuccessRate(stats), [stats]);
 
-    return {
-      successRate: successRateStatus,
-      responseTime: responseTimeStatus,
-      overall: successRateStatus === 'good' && responseTimeStatus === 'good' ? 'good' : 'bad',
-    };
-  }, [stats]);
+  // Grade health from success rate and p95 latency against the configured thresholds
+  const healthStatus = useMemo(() => getHealthStatus(stats, thresholds), [stats, thresholds]);
 
   // Table columns for recent logs
   const logColumns: ColumnsType<LogEntry> = useMemo(
@@ -299,7 +175,7 @@ const Dashboard: React.FC = () => {
         key: 'name',
         render: (text: string, record: GrpcServiceInfo) => (
           <Space>
-            <span>{text}</span>
+            <Link to={getServicePath(record.id)}>{text}</Link>
             <Tag color="blue">{record.package}</Tag>
           </Space>
         ),
@@ -398,11 +274,11 @@ const Dashboard: React.FC = () => {
         <Card bordered={false} className="stat-card" loading={loading.stats}>
           <Statistic
             title="Success Rate"
-            value={successRate}
-            suffix="%"
+            value={successRate ?? '—'}
+            suffix={successRate !== null ? '%' : undefined}
             precision={1}
             valueStyle={{
-              color: performanceLevel.successRate === 'good' ? '#3f8600' : '#cf1322',
+              color: successRate !== null ? HEALTH_COLORS[healthStatus.successRate] : undefined,
             }}
             prefix={<CheckCircleOutlined />}
           />
@@ -414,15 +290,16 @@ const Dashboard: React.FC = () => {
       <Col xs={24} sm={12} md={6}>
         <Card bordered={false} className="stat-card" loading={loading.stats}>
           <Statistic
-            title="Avg Response Time"
-            value={stats.avgResponseTime}
+            title={healthStatus.p95Estimated ? 'Avg Response Time' : 'p95 Response Time'}
+            value={healthStatus.p95}
             suffix="ms"
             precision={1}
-            valueStyle={{
-              color: performanceLevel.responseTime === 'good' ? '#3f8600' : '#cf1322',
-            }}
+            valueStyle={{ color: HEALTH_COLORS[healthStatus.latency] }}
             prefix={<FieldTimeOutlined />}
           />
+          {!healthStatus.p95Estimated && (
+            <Text type="secondary">avg {stats.avgResponseTime.toFixed(1)}ms</Text>
+          )}
         </Card>
       </Col>
     </Row>
@@ -437,14 +314,17 @@ const Dashboard: React.FC = () => {
             <Badge status="warning" text="WebSocket disconnected - using HTTP fallback" />
           )}
         </Space>
-        <Button
-          type="primary"
-          icon={<ReloadOutlined />}
-          onClick={fetchData}
-          loading={loading.services || loading.logs || loading.stats}
-        >
-          Refresh
-        </Button>
+        <Space>
+          <DataFreshness resource="stats" />
+          <Button
+            type="primary"
+            icon={<ReloadOutlined />}
+            onClick={fetchData}
+            loading={loading.services || loading.logs || loading.stats}
+          >
+            Refresh
+          </Button>
+        </Space>
       </div>
 
       {/* Display errors if any */}
@@ -466,23 +346,25 @@ const Dashboard: React.FC = () => {
       )}
 
       {/* System Status Overview */}
-      {performanceLevel.overall === 'bad' && !loading.stats && (
+      {healthStatus.overall !== 'healthy' && !loading.stats && (
         <Alert
           message="System Performance Warning"
           description={
             <div>
-              {performanceLevel.successRate === 'bad' && (
-                <div>• Low success rate ({successRate}%) - check for service errors</div>
+              {healthStatus.successRate !== 'healthy' && (
+                <div>
+                  • Low success rate ({successRate?.toFixed(1)}%) - check for service errors
+                </div>
               )}
-              {performanceLevel.responseTime === 'bad' && (
+              {healthStatus.latency !== 'healthy' && (
                 <div>
-                  • High response time ({stats.avgResponseTime}ms) - check for performance
-                  bottlenecks
+                  • High {healthStatus.p95Estimated ? 'average' : 'p95'} response time (
+                  {healthStatus.p95.toFixed(1)}ms) - check for performance bottlenecks
                 </div>
               )}
             </div>
           }
-          type="warning"
+          type={healthStatus.overall === 'unhealthy' ? 'error' : 'warning'}
           showIcon
           icon={<WarningOutlined />}
           style={{ marginBottom: 16 }}
@@ -0,0 +1,134 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Card, Form, Input, Button, Typography, Alert, Select, Tag, Space } from 'antd';
+import { ApiOutlined, LockOutlined, LoginOutlined, UserOutlined } from '@ant-design/icons';
+import { AxiosError } from 'axios';
+import authService from '../services/auth';
+import environmentService, { EnvironmentProfile } from '../services/environments';
+
+const { Title, Text } = Typography;
+
+interface LoginFormValues {
+  username: string;
+  password: string;
+}
+
+/**
+ * Login component for signing in to environments that require authentication
+ */
+const Login: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [active, setActive] = useState<EnvironmentProfile>(environmentService.getActive());
+  const [loginRequired, setLoginRequired] = useState(environmentService.isLoginRequired());
+
+  // Page to return to after signing in
+  const from = (location.state as { from?: string } | null)?.from || '/';
+
+  // Follow environment switches made from this page
+  useEffect(
+    () =>
+      environmentService.subscribe((nextActive) => {
+        setActive(nextActive);
+        setLoginRequired(environmentService.isLoginRequired());
+        setError(null);
+      }),
+    [],
+  );
+
+  // Sign in and return to the requested page
+  const handleLogin = useCallback(
+    async ({ username, password }: LoginFormValues) => {
+      try {
+        setSubmitting(true);
+        setError(null);
+        await authService.login(username, password);
+        navigate(from, { replace: true });
+      } catch (error) {
+        console.error('Login failed:', error);
+        const status = (error as AxiosError).response?.status;
+        setError(
+          status === 401 || status === 403
+            ? 'Invalid username or password.'
+            : 'Unable to sign in. Please check your connection and try again.',
+        );
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [from, navigate],
+  );
+
+  // Nothing to sign in to
+  if (!loginRequired) {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 24,
+      }}
+    >
+      <Card style={{ width: 380, boxShadow: 'var(--box-shadow)' }}>
+        <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+          <div style={{ textAlign: 'center' }}>
+            <ApiOutlined style={{ fontSize: 32, color: 'var(--primary-color)' }} />
+            <Title level={4} style={{ marginTop: 8, marginBottom: 0 }}>
+              gRPC Dashboard
+            </Title>
+            <Text type="secondary">Sign in to continue</Text>
+          </div>
+
+          <Select
+            value={active.id}
+            onChange={(id) => environmentService.activate(id)}
+            style={{ width: '100%' }}
+            options={environmentService.getProfiles().map((profile) => ({
+              value: profile.id,
+              label: <Tag color={profile.color}>{profile.name}</Tag>,
+            }))}
+          />
+
+          {error && <Alert message={error} type="error" showIcon />}
+
+          <Form<LoginFormValues> layout="vertical" onFinish={handleLogin} requiredMark={false}>
+            <Form.Item
+              name="username"
+              rules={[{ required: true, message: 'Please enter your username' }]}
+            >
+              <Input prefix={<UserOutlined />} placeholder="Username" autoComplete="username" />
+            </Form.Item>
+            <Form.Item
+              name="password"
+              rules={[{ required: true, message: 'Please enter your password' }]}
+            >
+              <Input.Password
+                prefix={<LockOutlined />}
+                placeholder="Password"
+                autoComplete="current-password"
+              />
+            </Form.Item>
+            <Button
+              type="primary"
+              htmlType="submit"
+              icon={<LoginOutlined />}
+              loading={submitting}
+              block
+            >
+              Sign In
+            </Button>
+          </Form>
+        </Space>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
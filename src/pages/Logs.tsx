@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import {
   Table,
   Typography,
@@ -19,7 +19,12 @@ import {
   Spin,
   Divider,
   Popover,
+  Switch,
+  AutoComplete,
+  DatePicker,
   notification,
+  theme,
+  Upload,
 } from 'antd';
 import {
   ReloadOutlined,
@@ -31,16 +36,59 @@ import {
   DownloadOutlined,
   CopyOutlined,
   WarningOutlined,
+  ApartmentOutlined,
+  PauseCircleOutlined,
+  PlayCircleOutlined,
+  QuestionCircleOutlined,
+  ClockCircleOutlined,
+  UploadOutlined,
 } from '@ant-design/icons';
-import { LogEntry, GrpcServiceInfo } from '../types/api';
+import { Link, useSearchParams } from 'react-router-dom';
+import { LogEntry } from '../types/api';
 import { format, formatDistance } from 'date-fns';
-import ApiService from '../services/api';
+import dayjs, { Dayjs } from 'dayjs';
+import ApiService, { isRequestCanceled } from '../services/api';
 import socketService from '../services/socket';
 import { ColumnsType } from 'antd/es/table';
 import { debounce } from 'lodash';
+import { getTracePath } from '../utils/trace';
+import {
+  DEFAULT_LOG_FILTERS,
+  getLogFilterQuery,
+  readLogFilterParams,
+  withSearchParam,
+  writeLogFilterParams,
+} from '../utils/urlState';
+import { getGrpcStatusName } from '../utils/grpc';
+import {
+  collectDataKeys,
+  getLogQuerySuggestions,
+  LOG_QUERY_FIELDS,
+  matchesLogQuery,
+  parseLogQuery,
+} from '../utils/logQuery';
+import {
+  describeTimeRange,
+  isInTimeRange,
+  resolveTimeRange,
+  TIME_RANGE_PRESETS,
+  TimeRange,
+  TimeRangePreset,
+} from '../utils/timeRange';
+import { buildLogHistogram } from '../utils/logHistogram';
+import { ExportColumn } from '../utils/export';
+import { LogSnapshot, parseLogSnapshot } from '../utils/logImport';
+import { getSettings } from '../utils/settings';
+import { useDataStore, useResource } from '../hooks/useDataStore';
+import JsonTree from '../components/JsonTree';
+import StackTrace from '../components/StackTrace';
+import ExportModal from '../components/ExportModal';
+import PermissionGuard from '../components/PermissionGuard';
+import TimeSeriesChart, { ChartDatum, ChartSeries } from '../components/charts/TimeSeriesChart';
 
 const { Title, Text, Paragraph } = Typography;
 const { Option } = Select;
+const { RangePicker } = DatePicker;
 
 // Log level configuration for consistent styling
 const LOG_LEVELS = {
@@ -51,11 +99,101 @@ const LOG_LEVELS = {
   verbose: { color: 'gray', label: 'VERBOSE', status: 'default' },
 };
 
+// Height of the virtualized table body in pixels
+const TABLE_HEIGHT = 600;
+
+// Load the next page once the scroll position is this close to the bottom
+const LOAD_MORE_THRESHOLD = 400;
+
+// Live entries push the oldest loaded ones out beyond this; scrolling down loads them again
+const MAX_LOADED_LOGS = 20000;
+
+// Entries received while live tail is paused are held up to this many, dropping the oldest
+const MAX_BUFFERED_LOGS = 5000;
+
+// Scrolling further than this from the top stops following new entries
+const FOLLOW_SCROLL_TOLERANCE = 8;
+
+// Fields offered when exporting; plain-text lines read like "<time> ERROR [context] message"
+const LOG_EXPORT_COLUMNS: ExportColumn<LogEntry>[] = [
+  { key: 'id', label: 'ID', value: (log) => log.id, defaultSelected: false },
+  { key: 'timestamp', label: 'Timestamp', value: (log) => log.timestamp },
+  {
+    key: 'level',
+    label: 'Level',
+    value: (log) => log.level,
+    text: (log) => log.level.toUpperCase().padEnd(7),
+  },
+  { key: 'service', label: 'Service', value: (log) => log.service },
+  { key: 'method', label: 'Method', value: (log) => log.method },
+  {
+    key: 'context',
+    label: 'Context',
+    value: (log) => log.context,
+    text: (log) => (log.context ? `[${log.context}]` : ''),
+  },
+  { key: 'message', label: 'Message', value: (log) => log.message },
+  {
+    key: 'statusCode',
+    label: 'Status',
+    value: (log) => log.statusCode,
+    text: (log) =>
+      log.statusCode !== undefined ? `status=${getGrpcStatusName(log.statusCode)}` : '',
+  },
+  {
+    key: 'durationMs',
+    label: 'Duration (ms)',
+    value: (log) => log.durationMs,
+    text: (log) => (log.durationMs !== undefined ? `duration=${log.durationMs}ms` : ''),
+  },
+  {
+    key: 'traceId',
+    label: 'Trace ID',
+    value: (log) => log.traceId,
+    text: (log) => (log.traceId ? `trace=${log.traceId}` : ''),
+  },
+  { key: 'data', label: 'Data', value: (log) => log.data },
+  {
+    key: 'stack',
+    label: 'Stack',
+    value: (log) => log.stack,
+    text: (log) => (log.stack ? `\n${log.stack}` : ''),
+    defaultSelected: false,
+  },
+];
+
 type LogFilter = {
   levels: string[];
-  service?: string;
+  service?: string | undefined;
   searchText: string;
   limit: number;
+  timeRange?: TimeRange | undefined;
+};
+
+// Form fields backing the time range picker
+type RangeFormValues = {
+  rangePreset: TimeRangePreset | 'custom' | undefined;
+  customRange: [Dayjs, Dayjs] | null;
+};
+
+const toRangeFormValues = (range?: TimeRange): RangeFormValues => {
+  if (range?.preset) return { rangePreset: range.preset, customRange: null };
+  if (range?.from && range.to) {
+    return { rangePreset: 'custom', customRange: [dayjs(range.from), dayjs(range.to)] };
+  }
+  return { rangePreset: undefined, customRange: null };
+};
+
+const fromRangeFormValues = ({
+  rangePreset,
+  customRange,
+}: RangeFormValues): TimeRange | undefined => {
+  if (rangePreset === 'custom') {
+    return customRange
+      ? { from: customRange[0].toISOString(), to: customRange[1].toISOString() }
+      : undefined;
+  }
+  return rangePreset ? { preset: rangePreset } : undefined;
 };
 
 /**
@@ -64,47 +202,81 @@ type LogFilter = {
 const Logs: React.FC = () => {
   // State management
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [services, setServices] = useState<GrpcServiceInfo[]>([]);
+  const { data: services } = useResource('services');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [drawerVisible, setDrawerVisible] = useState(false);
   const [selectedLog, setSelectedLog] = useState<LogEntry | null>(null);
-  const [refreshInterval, setRefreshInterval] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [liveTail, setLiveTail] = useState(true);
+  const [follow, setFollow] = useState(true);
+  const [bufferedCount, setBufferedCount] = useState(0);
+  const [exportOpen, setExportOpen] = useState(false);
+  // Imported logs shown instead of live data until cleared
+  const [snapshot, setSnapshot] = useState<LogSnapshot | null>(null);
   const [form] = Form.useForm();
+  const rangePreset = Form.useWatch('rangePreset', form);
+  const tableRef: Parameters<typeof Table<LogEntry>>[0]['ref'] = useRef(null);
+
+  // Cancels this page's log requests when the filters change or the page unmounts
+  const requestControllerRef = useRef(new AbortController());
+
+  // Latest loaded logs for callbacks that shouldn't be recreated on every entry
+  const logsRef = useRef<LogEntry[]>([]);
+
+  // Entries held back while live tail is paused, newest first
+  const bufferRef = useRef<LogEntry[]>([]);
+  const droppedCountRef = useRef(0);
+  const pausedRef = useRef(false);
+
+  // Filters and the open log are mirrored in the URL so views can be linked and bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedLogId = searchParams.get('log');
+
+  // Filter states, starting from the URL
+  const [filters, setFilters] = useState<LogFilter>(() => readLogFilterParams(searchParams));
+
+  // Filters last known to match the URL, to tell local changes from navigation
+  const syncedFilterQuery = useRef(getLogFilterQuery(filters));
+
+  // Whether the page was opened with levels in the URL, which take precedence over settings
+  const levelsFromUrl = useRef(searchParams.has('level'));
+
+  // Raw text in the query box, ahead of the debounced filter
+  const [queryInput, setQueryInput] = useState(filters.searchText);
+
+  // The query is matched client-side and also sent to the backend to filter server-side
+  const parsedQuery = useMemo(() => parseLogQuery(filters.searchText), [filters.searchText]);
 
-  // Filter states
-  const [filters, setFilters] = useState<LogFilter>({
-    levels: ['error', 'warn', 'info', 'debug', 'verbose'],
-    service: undefined,
-    searchText: '',
-    limit: 50,
-  });
+  // Filters sent with every log request; relative time ranges are resolved when each is made
+  const getRequestFilters = useCallback(
+    () => ({
+      levels: filters.levels,
+      service: filters.service,
+      limit: filters.limit,
+      query: parsedQuery.error ? undefined : filters.searchText || undefined,
+      ...resolveTimeRange(filters.timeRange),
+    }),
+    [filters, parsedQuery],
+  );
 
   // Save/Load filters from localStorage
   const [savedFilters, setSavedFilters] = useState<Record<string, LogFilter>>({});
 
+  // Auto-refresh and connection status are shared with the other pages
+  const refreshInterval = useDataStore((state) => state.refreshInterval);
+  const socketConnected = useDataStore((state) => state.socketConnected);
+
   // Load user settings
   useEffect(() => {
-    // Load auto-refresh setting
-    const savedSettings = localStorage.getItem('grpcDashboardSettings');
-    if (savedSettings) {
-      try {
-        const { refreshInterval, logLevel } = JSON.parse(savedSettings);
-        if (refreshInterval > 0) {
-          setRefreshInterval(refreshInterval * 1000); // Convert to milliseconds
-        }
-
-        // Apply log level filter from settings if available
-        if (logLevel) {
-          const levelIndex = Object.keys(LOG_LEVELS).indexOf(logLevel);
-          if (levelIndex >= 0) {
-            const levels = Object.keys(LOG_LEVELS).slice(0, levelIndex + 1);
-            setFilters((prev) => ({ ...prev, levels }));
-            form.setFieldsValue({ levels });
-          }
-        }
-      } catch (error) {
-        console.error('Failed to parse saved settings:', error);
+    // Apply the log level filter from settings unless the URL sets one
+    if (!levelsFromUrl.current) {
+      const levelIndex = Object.keys(LOG_LEVELS).indexOf(getSettings().logLevel);
+      if (levelIndex >= 0) {
+        const levels = Object.keys(LOG_LEVELS).slice(0, levelIndex + 1);
+        setFilters((prev) => ({ ...prev, levels }));
+        form.setFieldsValue({ levels });
       }
     }
 
@@ -119,93 +291,313 @@ const Logs: React.FC = () => {
     }
   }, [form]);
 
-  // Fetch logs data with applied filters
+  // Keep filters and the URL in sync; navigation (back/forward, links) wins over local changes
+  useEffect(() => {
+    const urlFilters = readLogFilterParams(searchParams);
+    const urlQuery = getLogFilterQuery(urlFilters);
+
+    if (urlQuery !== syncedFilterQuery.current) {
+      syncedFilterQuery.current = urlQuery;
+      if (urlQuery !== getLogFilterQuery(filters)) {
+        setFilters(urlFilters);
+        setQueryInput(urlFilters.searchText);
+        form.setFieldsValue({ ...urlFilters, ...toRangeFormValues(urlFilters.timeRange) });
+      }
+      return;
+    }
+
+    const filterQuery = getLogFilterQuery(filters);
+    if (filterQuery !== syncedFilterQuery.current) {
+      syncedFilterQuery.current = filterQuery;
+      setSearchParams((params) => writeLogFilterParams(params, filters), { replace: true });
+    }
+  }, [filters, searchParams, setSearchParams, form]);
+
+  useEffect(() => {
+    logsRef.current = logs;
+  }, [logs]);
+
+  // Add newer entries at the top, skipping ones already loaded
+  const prependLogs = useCallback((entries: LogEntry[]) => {
+    if (entries.length === 0) return;
+    if (logsRef.current.length + entries.length > MAX_LOADED_LOGS) setHasMore(true);
+
+    setLogs((prev) => {
+      const loadedIds = new Set(prev.map((log) => log.id));
+      const fresh = entries.filter((log) => !loadedIds.has(log.id));
+      return fresh.length > 0 ? [...fresh, ...prev].slice(0, MAX_LOADED_LOGS) : prev;
+    });
+  }, []);
+
+  // Hold entries in the buffer while paused, otherwise show them straight away
+  const receiveLogs = useCallback(
+    (entries: LogEntry[]) => {
+      if (!pausedRef.current) {
+        prependLogs(entries);
+        return;
+      }
+      if (entries.length === 0) return;
+
+      const bufferedIds = new Set(bufferRef.current.map((log) => log.id));
+      const buffer = [...entries.filter((log) => !bufferedIds.has(log.id)), ...bufferRef.current];
+      if (buffer.length > MAX_BUFFERED_LOGS) {
+        droppedCountRef.current += buffer.length - MAX_BUFFERED_LOGS;
+      }
+      bufferRef.current = buffer.slice(0, MAX_BUFFERED_LOGS);
+      setBufferedCount(bufferRef.current.length);
+    },
+    [prependLogs],
+  );
+
+  const clearBuffer = useCallback(() => {
+    bufferRef.current = [];
+    droppedCountRef.current = 0;
+    setBufferedCount(0);
+  }, []);
+
+  // Fetch the newest page of logs with applied filters
   const fetchLogs = useCallback(async () => {
+    // The newest page includes anything that was buffered
+    clearBuffer();
+    const { signal } = requestControllerRef.current;
+
     try {
       setLoading(true);
       setError(null);
       const data = await ApiService.getLogs({
-        levels: filters.levels,
-        service: filters.service,
-        limit: filters.limit,
+        ...getRequestFilters(),
+        signal,
       });
       setLogs(data);
+      setHasMore(data.length >= filters.limit);
     } catch (error) {
+      if (isRequestCanceled(error)) return;
       console.error('Error fetching logs:', error);
       setError('Failed to fetch logs. Please try again.');
     } finally {
-      setLoading(false);
+      // A cancelled fetch has been replaced by one that is still loading
+      if (!signal.aborted) setLoading(false);
+    }
+  }, [filters, getRequestFilters, clearBuffer]);
+
+  // Fetch entries newer than the latest loaded or buffered one
+  const fetchNewerLogs = useCallback(async () => {
+    const newest = bufferRef.current[0] ?? logsRef.current[0];
+    if (!newest) {
+      fetchLogs();
+      return;
     }
-  }, [filters]);
 
-  // Fetch services for the filter dropdown
-  const fetchServices = useCallback(async () => {
     try {
-      const data = await ApiService.getServices();
-      setServices(data);
+      const data = await ApiService.getLogs({
+        ...getRequestFilters(),
+        after: newest.id,
+        signal: requestControllerRef.current.signal,
+      });
+      receiveLogs(data);
     } catch (error) {
-      console.error('Error fetching services:', error);
+      if (isRequestCanceled(error)) return;
+      console.error('Error fetching newer logs:', error);
     }
+  }, [getRequestFilters, fetchLogs, receiveLogs]);
+
+  // Pause live tail, buffering new entries so the table holds still
+  const pauseLiveTail = useCallback(() => {
+    pausedRef.current = true;
+    setLiveTail(false);
   }, []);
 
+  // Resume live tail and show everything received while paused
+  const resumeLiveTail = useCallback(() => {
+    pausedRef.current = false;
+    setLiveTail(true);
+
+    // Dropped entries leave a gap between the table and the buffer, so reload instead
+    if (droppedCountRef.current > 0) {
+      notification.info({
+        message: 'Backlog Overflowed',
+        description: `${droppedCountRef.current} entries exceeded the buffer while paused. Reloading the latest logs.`,
+      });
+      fetchLogs();
+      return;
+    }
+
+    prependLogs(bufferRef.current);
+    clearBuffer();
+  }, [fetchLogs, prependLogs, clearBuffer]);
+
+  // Keep the newest entries in view while following
+  useEffect(() => {
+    if (follow && liveTail) tableRef.current?.scrollTo({ top: 0 });
+  }, [logs, follow, liveTail, tableRef]);
+
+  // Fetch the page of entries older than the oldest loaded one
+  const loadMoreLogs = useCallback(async () => {
+    const oldest = logsRef.current[logsRef.current.length - 1];
+    if (!oldest || !hasMore || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const data = await ApiService.getLogs({
+        ...getRequestFilters(),
+        before: oldest.id,
+        signal: requestControllerRef.current.signal,
+      });
+      // Stop paging back once the loaded list is full
+      const full = logsRef.current.length + data.length >= MAX_LOADED_LOGS;
+      setLogs((prev) => {
+        const loadedIds = new Set(prev.map((log) => log.id));
+        const older = data.filter((log) => !loadedIds.has(log.id));
+        return [...prev, ...older].slice(0, MAX_LOADED_LOGS);
+      });
+      setHasMore(!full && data.length >= filters.limit);
+    } catch (error) {
+      if (isRequestCanceled(error)) return;
+      console.error('Error fetching older logs:', error);
+      setError('Failed to load older logs. Please try again.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, getRequestFilters, hasMore, loadingMore]);
+
+  // Load older logs when the table is scrolled near the bottom, and stop following when
+  // scrolled away from the newest entries
+  const handleTableScroll = useCallback(
+    (e: React.UIEvent<HTMLDivElement>) => {
+      const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+      if (scrollTop > FOLLOW_SCROLL_TOLERANCE) setFollow(false);
+      if (!snapshot && scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD) {
+        loadMoreLogs();
+      }
+    },
+    [loadMoreLogs, snapshot],
+  );
+
   // Handle log updates from WebSocket
   const handleLogUpdate = useCallback(
     (log: LogEntry) => {
-      // Only add the log if it matches the current filters
+      // Only add the log if it matches the current filters; the subscription filters server-side,
+      // but servers without subscription support still broadcast every entry
       if (
         filters.levels.includes(log.level) &&
         (!filters.service || (log.service && log.service === filters.service)) &&
-        (!filters.searchText ||
-          log.message.toLowerCase().includes(filters.searchText.toLowerCase()) ||
-          log.context.toLowerCase().includes(filters.searchText.toLowerCase()) ||
-          (log.service && log.service.toLowerCase().includes(filters.searchText.toLowerCase())) ||
-          (log.method && log.method.toLowerCase().includes(filters.searchText.toLowerCase())))
+        isInTimeRange(log.timestamp, filters.timeRange) &&
+        matchesLogQuery(parsedQuery.node, log)
       ) {
-        setLogs((prev) => [log, ...prev.slice(0, filters.limit - 1)]);
+        receiveLogs([log]);
       }
     },
-    [filters],
+    [filters, parsedQuery, receiveLogs],
   );
 
   // Set up WebSocket listeners and fetch data on component mount
   useEffect(() => {
+    // An imported snapshot is read-only, so nothing is loaded or streamed while viewing one
+    if (snapshot) return;
+
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
     fetchLogs();
-    fetchServices();
 
-    // Register socket event handler for new logs
+    // Register socket event handler for new logs, and ask the server for only matching ones
     const unsubscribeLog = socketService.on('log', handleLogUpdate);
+    const { levels, service, query } = getRequestFilters();
+    const subscriptionId = socketService.subscribe('logs', { levels, service, query });
 
-    // Request initial logs from WebSocket
+    // Request initial logs from WebSocket, ignoring a reply that arrives after the filters change
+    let cancelled = false;
     if (socketService.isConnected()) {
-      socketService.getLogs({
-        levels: filters.levels,
-        service: filters.service,
-        limit: filters.limit,
-      });
+      socketService
+        .getLogs({ ...getRequestFilters() }, { queue: false })
+        .then((data) => {
+          if (!cancelled) receiveLogs(data);
+        })
+        .catch((error) => console.warn('Error requesting logs over WebSocket:', error));
     }
 
     // Auto-refresh setup
     let intervalId: number | undefined;
     if (refreshInterval) {
       intervalId = window.setInterval(() => {
-        fetchLogs();
+        fetchNewerLogs();
       }, refreshInterval);
     }
 
     // Clean up on unmount
     return () => {
+      cancelled = true;
       unsubscribeLog();
+      socketService.unsubscribe(subscriptionId);
       if (intervalId) clearInterval(intervalId);
-      ApiService.abortAllRequests(); // Abort any pending fetch requests
+      controller.abort(); // Abort this page's pending fetch requests
     };
-  }, [fetchLogs, fetchServices, handleLogUpdate, filters, refreshInterval]);
+  }, [
+    fetchLogs,
+    fetchNewerLogs,
+    handleLogUpdate,
+    getRequestFilters,
+    receiveLogs,
+    refreshInterval,
+    snapshot,
+  ]);
 
-  // Show log details
-  const showLogDetails = useCallback((log: LogEntry) => {
-    setSelectedLog(log);
-    setDrawerVisible(true);
+  // Load an exported JSON or NDJSON file in place of live logs
+  const importLogFile = useCallback(async (file: File) => {
+    try {
+      const imported = parseLogSnapshot(file.name, await file.text());
+      setSnapshot(imported);
+      setError(null);
+
+      notification.success({
+        message: 'Import Successful',
+        description:
+          `${imported.logs.length} logs loaded from ${file.name}.` +
+          (imported.skipped > 0 ? ` ${imported.skipped} records were not log entries.` : ''),
+      });
+    } catch (error) {
+      console.error('Error importing logs:', error);
+      notification.error({
+        message: 'Import Failed',
+        description: `Could not read logs from ${file.name}: ${
+          error instanceof Error ? error.message : 'unknown error'
+        }`,
+      });
+    }
   }, []);
 
+  // Leave the snapshot and go back to live logs
+  const closeSnapshot = useCallback(() => {
+    setSnapshot(null);
+  }, []);
+
+  // Show log details
+  const showLogDetails = useCallback(
+    (log: LogEntry) => {
+      setSelectedLog(log);
+      setSearchParams((params) => withSearchParam(params, 'log', log.id));
+    },
+    [setSearchParams],
+  );
+
+  // Close log details
+  const closeLogDetails = useCallback(() => {
+    setSearchParams((params) => withSearchParam(params, 'log', undefined));
+  }, [setSearchParams]);
+
+  // Open the drawer for the log in the URL once it is among the loaded or imported entries
+  useEffect(() => {
+    if (!selectedLogId) {
+      setDrawerVisible(false);
+      return;
+    }
+
+    const log = (snapshot?.logs ?? logs).find((entry) => entry.id === selectedLogId);
+    if (log) {
+      setSelectedLog(log);
+      setDrawerVisible(true);
+    }
+  }, [selectedLogId, logs, snapshot]);
+
   // Format date for display
   const formatDate = useCallback((dateStr: string) => {
     try {
@@ -232,6 +624,7 @@ const Logs: React.FC = () => {
       service: values.service,
       searchText: values.searchText || '',
       limit: values.limit,
+      timeRange: fromRangeFormValues(values),
     });
   }, [form]);
 
@@ -244,27 +637,43 @@ const Logs: React.FC = () => {
     [],
   );
 
-  // Handle search input change
+  // Handle query input changes, both typed and picked from the suggestions
   const handleSearchChange = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      const value = e.target.value;
-      form.setFieldsValue({ searchText: value });
+    (value: string) => {
+      setQueryInput(value);
       debouncedSearch(value);
     },
-    [form, debouncedSearch],
+    [debouncedSearch],
+  );
+
+  // Structured data fields seen in the newest logs, offered as data.<path> completions
+  const dataKeys = useMemo(
+    () => collectDataKeys((snapshot?.logs ?? logs).slice(0, 500)),
+    [logs, snapshot],
+  );
+
+  // Service names for the filter dropdown, taken from the entries when viewing a snapshot
+  const serviceNames = useMemo(
+    () =>
+      snapshot
+        ? Array.from(
+            new Set(snapshot.logs.flatMap((log) => (log.service ? [log.service] : []))),
+          ).sort()
+        : services.map((service) => service.name),
+    [services, snapshot],
+  );
+
+  // Completions for the term at the end of the query
+  const querySuggestions = useMemo(
+    () => getLogQuerySuggestions(queryInput, services, dataKeys),
+    [queryInput, services, dataKeys],
   );
 
   // Reset filters to default
   const resetFilters = useCallback(() => {
-    const defaultFilters = {
-      levels: ['error', 'warn', 'info', 'debug', 'verbose'],
-      service: undefined,
-      searchText: '',
-      limit: 50,
-    };
-
-    setFilters(defaultFilters);
-    form.setFieldsValue(defaultFilters);
+    setFilters(DEFAULT_LOG_FILTERS);
+    setQueryInput('');
+    form.setFieldsValue({ ...DEFAULT_LOG_FILTERS, ...toRangeFormValues() });
   }, [form]);
 
   // Save current filters
@@ -292,7 +701,8 @@ const Logs: React.FC = () => {
       const filterToLoad = savedFilters[filterName];
       if (filterToLoad) {
         setFilters(filterToLoad);
-        form.setFieldsValue(filterToLoad);
+        setQueryInput(filterToLoad.searchText);
+        form.setFieldsValue({ ...filterToLoad, ...toRangeFormValues(filterToLoad.timeRange) });
 
         notification.info({
           message: 'Filters Loaded',
@@ -319,45 +729,70 @@ const Logs: React.FC = () => {
   );
 
   const filteredLogs = useMemo(() => {
-    if (!filters.searchText) {
+    // Live logs arrive filtered by level and service; a snapshot has to be filtered here
+    if (snapshot) {
+      const now = Date.now();
+      return snapshot.logs.filter(
+        (log) =>
+          filters.levels.includes(log.level) &&
+          (!filters.service || log.service === filters.service) &&
+          isInTimeRange(log.timestamp, filters.timeRange, now) &&
+          matchesLogQuery(parsedQuery.node, log, now),
+      );
+    }
+
+    if (!parsedQuery.node && !filters.timeRange) {
       return logs;
     }
 
+    const now = Date.now();
     return logs.filter(
       (log) =>
-        log.message.toLowerCase().includes(filters.searchText.toLowerCase()) ||
-        log.context.toLowerCase().includes(filters.searchText.toLowerCase()) ||
-        (log.service && log.service.toLowerCase().includes(filters.searchText.toLowerCase())) ||
-        (log.method && log.method.toLowerCase().includes(filters.searchText.toLowerCase())) ||
-        (log.traceId && log.traceId.toLowerCase().includes(filters.searchText.toLowerCase())),
+        isInTimeRange(log.timestamp, filters.timeRange, now) &&
+        matchesLogQuery(parsedQuery.node, log, now),
     );
-  }, [logs, filters.searchText]);
-
-  // Export logs to JSON
-  const exportLogsToJson = useCallback(() => {
-    try {
-      const dataStr = JSON.stringify(filteredLogs, null, 2);
-      const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(dataStr);
+  }, [logs, snapshot, parsedQuery, filters]);
 
-      const exportFileDefaultName = `grpc-logs-${new Date().toISOString().slice(0, 10)}.json`;
+  // Tag color names from LOG_LEVELS resolved to chart fills
+  const { token } = theme.useToken();
+  const histogramSeries = useMemo<ChartSeries[]>(
+    () =>
+      Object.entries(LOG_LEVELS)
+        .filter(([key]) => filters.levels.includes(key))
+        .map(([key, value]) => {
+          const color = token[value.color as keyof typeof token];
+          return {
+            key,
+            label: value.label,
+            color: typeof color === 'string' ? color : token.colorTextQuaternary,
+          };
+        }),
+    [token, filters.levels],
+  );
 
-      const linkElement = document.createElement('a');
-      linkElement.setAttribute('href', dataUri);
-      linkElement.setAttribute('download', exportFileDefaultName);
-      linkElement.click();
+  // Log volume per time bucket, recounted as live entries arrive
+  const histogram = useMemo(() => {
+    const { bucketMs, buckets } = buildLogHistogram(
+      filteredLogs,
+      filters.levels,
+      resolveTimeRange(filters.timeRange),
+    );
+    const data: ChartDatum[] = buckets.map((bucket) => ({
+      timestamp: bucket.timestamp,
+      values: bucket.counts,
+    }));
+    return { bucketMs, data };
+  }, [filteredLogs, filters.levels, filters.timeRange]);
 
-      notification.success({
-        message: 'Export Successful',
-        description: `${filteredLogs.length} logs exported to JSON.`,
-      });
-    } catch (error) {
-      console.error('Error exporting logs:', error);
-      notification.error({
-        message: 'Export Failed',
-        description: 'Failed to export logs to JSON.',
-      });
-    }
-  }, [filteredLogs]);
+  // Narrow the time filter to the range dragged on the histogram
+  const selectHistogramRange = useCallback(
+    (from: number, to: number) => {
+      const timeRange = { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+      setFilters((prev) => ({ ...prev, timeRange }));
+      form.setFieldsValue(toRangeFormValues(timeRange));
+    },
+    [form],
+  );
 
   // Copy log details to clipboard
   const copyLogToClipboard = useCallback(
@@ -370,7 +805,13 @@ Message: ${log.message}
 ${log.service ? `Service: ${log.service}` : ''}
 ${log.method ? `Method: ${log.method}` : ''}
 ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
-    `.trim();
+${log.statusCode !== undefined ? `Status: ${log.statusCode} ${getGrpcStatusName(log.statusCode)}` : ''}
+${log.durationMs !== undefined ? `Duration: ${log.durationMs}ms` : ''}
+${log.data ? `Data: ${JSON.stringify(log.data, null, 2)}` : ''}
+${log.stack ? `Stack:\n${log.stack}` : ''}
+    `
+        .replace(/\n{2,}/g, '\n')
+        .trim();
 
       navigator.clipboard.writeText(logText).then(
         () => {
@@ -446,7 +887,11 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
         render: (message: string, record: LogEntry) => (
           <div>
             <div style={{ wordBreak: 'break-word' }}>{message}</div>
-            {(record.service || record.method || record.traceId) && (
+            {(record.service ||
+              record.method ||
+              record.traceId ||
+              record.statusCode !== undefined ||
+              record.durationMs !== undefined) && (
               <div style={{ marginTop: 5 }}>
                 {record.service && (
                   <Tooltip title="Service">
@@ -459,10 +904,27 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
                   </Tooltip>
                 )}
                 {record.traceId && (
-                  <Tooltip title="Trace ID">
-                    <Tag color="cyan">Trace: {record.traceId}</Tag>
+                  <Tooltip title="View trace">
+                    <Link to={getTracePath(record.traceId)}>
+                      <Tag color="cyan" icon={<ApartmentOutlined />}>
+                        Trace: {record.traceId}
+                      </Tag>
+                    </Link>
+                  </Tooltip>
+                )}
+                {record.statusCode !== undefined && (
+                  <Tooltip title="gRPC status">
+                    <Tag color={record.statusCode === 0 ? 'green' : 'red'}>
+                      {getGrpcStatusName(record.statusCode)}
+                    </Tag>
                   </Tooltip>
                 )}
+                {record.durationMs !== undefined && (
+                  <Tooltip title="Duration">
+                    <Tag icon={<ClockCircleOutlined />}>{record.durationMs}ms</Tag>
+                  </Tooltip>
+                )}
+                {record.stack && <Tag color="red">Stack trace</Tag>}
               </div>
             )}
           </div>
@@ -542,51 +1004,57 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
 
   // Count logs by level
   const logCounts = useMemo(() => {
-    // Define filteredLogs reference for this function
-    const logsToCount = !filters.searchText
-      ? logs
-      : logs.filter(
-          (log) =>
-            log.message.toLowerCase().includes(filters.searchText.toLowerCase()) ||
-            log.context.toLowerCase().includes(filters.searchText.toLowerCase()) ||
-            (log.service && log.service.toLowerCase().includes(filters.searchText.toLowerCase())) ||
-            (log.method && log.method.toLowerCase().includes(filters.searchText.toLowerCase())) ||
-            (log.traceId && log.traceId.toLowerCase().includes(filters.searchText.toLowerCase())),
-        );
-
     const counts = {
       error: 0,
       warn: 0,
       info: 0,
       debug: 0,
       verbose: 0,
-      total: logsToCount.length,
+      total: filteredLogs.length,
     };
 
-    logsToCount.forEach((log) => {
+    filteredLogs.forEach((log) => {
       if (counts.hasOwnProperty(log.level)) {
         counts[log.level as keyof typeof counts]++;
       }
     });
 
     return counts;
-  }, [logs, filters.searchText]);
+  }, [filteredLogs]);
 
   return (
     <div className="logs-container">
       <div className="table-header-actions">
         <Title level={4}>gRPC Logs</Title>
         <Space>
-          <Tooltip title="Export Logs">
+          <PermissionGuard permission="data:export">
             <Button
               icon={<DownloadOutlined />}
-              onClick={exportLogsToJson}
+              onClick={() => setExportOpen(true)}
               disabled={filteredLogs.length === 0}
             >
               Export
             </Button>
-          </Tooltip>
-          <Button type="primary" icon={<ReloadOutlined />} onClick={fetchLogs} loading={loading}>
+          </PermissionGuard>
+          <Upload
+            accept=".json,.ndjson,.jsonl"
+            showUploadList={false}
+            beforeUpload={(file) => {
+              importLogFile(file);
+              return false;
+            }}
+          >
+            <Tooltip title="Open an exported JSON or NDJSON log file">
+              <Button icon={<UploadOutlined />}>Import</Button>
+            </Tooltip>
+          </Upload>
+          <Button
+            type="primary"
+            icon={<ReloadOutlined />}
+            onClick={fetchLogs}
+            loading={loading}
+            disabled={!!snapshot}
+          >
             Refresh
           </Button>
         </Space>
@@ -603,12 +1071,27 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
         />
       )}
 
+      {snapshot && (
+        <Alert
+          type="warning"
+          showIcon
+          message={`Viewing imported snapshot: ${snapshot.fileName}`}
+          description={`${snapshot.logs.length} logs imported on ${formatDate(snapshot.importedAt)}. This is not live data - filters and search apply to the file only.`}
+          action={
+            <Button size="small" onClick={closeSnapshot}>
+              Back to Live Logs
+            </Button>
+          }
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
       {/* Filters */}
       <Card className="filter-container">
         <Form
           form={form}
           layout="inline"
-          initialValues={filters}
+          initialValues={{ ...filters, ...toRangeFormValues(filters.timeRange) }}
           onFinish={applyFilters}
           style={{ flexWrap: 'wrap', gap: '8px' }}
         >
@@ -632,28 +1115,80 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
               allowClear
               style={{ width: 200 }}
               placeholder="Filter by service"
-              loading={services.length === 0}
+              loading={!snapshot && services.length === 0}
             >
-              {services.map((service) => (
-                <Option key={service.id} value={service.name}>
-                  {service.name}
+              {serviceNames.map((name) => (
+                <Option key={name} value={name}>
+                  {name}
                 </Option>
               ))}
             </Select>
           </Form.Item>
 
-          <Form.Item label="Limit" name="limit">
+          <Form.Item label="Time" name="rangePreset">
+            <Select
+              allowClear
+              style={{ width: 170 }}
+              placeholder="All time"
+              options={[
+                ...Object.entries(TIME_RANGE_PRESETS).map(([value, { label }]) => ({
+                  value,
+                  label,
+                })),
+                { value: 'custom', label: 'Custom range...' },
+              ]}
+            />
+          </Form.Item>
+
+          {rangePreset === 'custom' && (
+            <Form.Item
+              name="customRange"
+              rules={[{ required: true, message: 'Select a start and end time' }]}
+            >
+              <RangePicker showTime={{ format: 'HH:mm' }} format="YYYY-MM-DD HH:mm" />
+            </Form.Item>
+          )}
+
+          <Form.Item label="Page size" name="limit">
             <InputNumber min={1} max={1000} style={{ width: 80 }} />
           </Form.Item>
 
-          <Form.Item name="searchText">
-            <Input
-              placeholder="Search in logs"
-              prefix={<SearchOutlined />}
+          <Form.Item
+            name="searchText"
+            validateStatus={parsedQuery.error ? 'error' : ''}
+            help={parsedQuery.error}
+          >
+            <AutoComplete
+              options={querySuggestions}
               onChange={handleSearchChange}
-              style={{ width: 200 }}
-              allowClear
-            />
+              filterOption={false}
+              style={{ width: 360 }}
+            >
+              <Input
+                placeholder='e.g. level:error service:UserService "timeout" -context:Health'
+                prefix={<SearchOutlined />}
+                suffix={
+                  <Tooltip
+                    title={
+                      <>
+                        <div>
+                          Combine terms with AND, OR, NOT or -, group with parentheses, quote
+                          phrases and use /regex/.
+                        </div>
+                        {Object.entries(LOG_QUERY_FIELDS).map(([field, description]) => (
+                          <div key={field}>
+                            <strong>{field}:</strong> {description}
+                          </div>
+                        ))}
+                      </>
+                    }
+                  >
+                    <QuestionCircleOutlined style={{ color: 'rgba(0, 0, 0, 0.45)' }} />
+                  </Tooltip>
+                }
+                allowClear
+              />
+            </AutoComplete>
           </Form.Item>
 
           <Form.Item>
@@ -681,6 +1216,25 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
         </Form>
       </Card>
 
+      {/* Log Volume */}
+      <Card
+        size="small"
+        title="Log Volume"
+        extra={<Text type="secondary">Drag across the bars to filter by time</Text>}
+        bordered={false}
+        style={{ marginBottom: 16 }}
+      >
+        <TimeSeriesChart
+          variant="stacked-bar"
+          data={histogram.data}
+          bucketMs={histogram.bucketMs}
+          series={histogramSeries}
+          height={140}
+          emptyDescription="No logs in this time range"
+          onSelectRange={selectHistogramRange}
+        />
+      </Card>
+
       {/* Logs Table */}
       <Card bordered={false}>
         <div
@@ -693,6 +1247,9 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
         >
           <Space size="large">
             <Text strong>Total: {logCounts.total}</Text>
+            {filters.timeRange && (
+              <Tag icon={<ClockCircleOutlined />}>{describeTimeRange(filters.timeRange)}</Tag>
+            )}
             <Tag color={LOG_LEVELS.error.color}>Errors: {logCounts.error}</Tag>
             <Tag color={LOG_LEVELS.warn.color}>Warnings: {logCounts.warn}</Tag>
             <Tag color={LOG_LEVELS.info.color}>Info: {logCounts.info}</Tag>
@@ -703,26 +1260,70 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
               <Tag color={LOG_LEVELS.verbose.color}>Verbose: {logCounts.verbose}</Tag>
             )}
           </Space>
-          <Space>
-            <Text type="secondary">
-              {socketService.isConnected()
-                ? 'WebSocket connected - receiving real-time logs'
-                : 'WebSocket disconnected - only showing fetched logs'}
-            </Text>
-          </Space>
+          {snapshot ? (
+            <Text type="secondary">Imported snapshot - live updates are off</Text>
+          ) : (
+            <Space>
+              <Text type="secondary">
+                {socketConnected
+                  ? 'WebSocket connected - receiving real-time logs'
+                  : 'WebSocket disconnected - only showing fetched logs'}
+              </Text>
+              <Tooltip title="Keep the newest entries in view">
+                <Switch
+                  size="small"
+                  checked={follow}
+                  onChange={setFollow}
+                  disabled={!liveTail}
+                  checkedChildren="Follow"
+                  unCheckedChildren="Follow"
+                />
+              </Tooltip>
+              {liveTail ? (
+                <Button size="small" icon={<PauseCircleOutlined />} onClick={pauseLiveTail}>
+                  Pause
+                </Button>
+              ) : (
+                <Tooltip title={`${bufferedCount} new logs received while paused`}>
+                  <Badge count={bufferedCount} overflowCount={999}>
+                    <Button
+                      size="small"
+                      type="primary"
+                      icon={<PlayCircleOutlined />}
+                      onClick={resumeLiveTail}
+                    >
+                      Resume
+                    </Button>
+                  </Badge>
+                </Tooltip>
+              )}
+            </Space>
+          )}
         </div>
 
         <Spin spinning={loading} tip="Loading logs...">
           <Table
+            ref={tableRef}
             dataSource={filteredLogs}
             columns={columns}
             rowKey="id"
-            pagination={{
-              pageSize: 20,
-              showSizeChanger: true,
-              pageSizeOptions: ['10', '20', '50', '100'],
-              showTotal: (total, range) => `${range[0]}-${range[1]} of ${total} logs`,
-            }}
+            virtual
+            pagination={false}
+            onScroll={handleTableScroll}
+            footer={() => (
+              <Space>
+                {loadingMore && <Spin size="small" />}
+                <Text type="secondary">
+                  {snapshot
+                    ? `${filteredLogs.length} of ${snapshot.logs.length} imported logs`
+                    : loadingMore
+                      ? 'Loading older logs...'
+                      : hasMore
+                        ? `${filteredLogs.length} logs loaded - scroll down to load older entries`
+                        : `${filteredLogs.length} logs - no older entries`}
+                </Text>
+              </Space>
+            )}
             locale={{
               emptyText: (
                 <Empty
@@ -731,13 +1332,23 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
                 />
               ),
             }}
-            scroll={{ x: 'max-content' }}
+            scroll={{ x: 1200, y: TABLE_HEIGHT }}
             rowClassName={(record) => `log-row log-level-${record.level}`}
             sticky
           />
         </Spin>
       </Card>
 
+      <ExportModal
+        open={exportOpen}
+        title="Export Logs"
+        rows={filteredLogs}
+        columns={LOG_EXPORT_COLUMNS}
+        baseName="grpc-logs"
+        itemLabel="logs"
+        onClose={() => setExportOpen(false)}
+      />
+
       {/* Log Details Drawer */}
       <Drawer
         title={
@@ -753,7 +1364,7 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
           </Space>
         }
         placement="right"
-        onClose={() => setDrawerVisible(false)}
+        onClose={closeLogDetails}
         open={drawerVisible}
         width={600}
         extra={
@@ -762,7 +1373,7 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
               <Button icon={<CopyOutlined />} onClick={() => copyLogToClipboard(selectedLog)}>
                 Copy
               </Button>
-              <Button onClick={() => setDrawerVisible(false)}>Close</Button>
+              <Button onClick={closeLogDetails}>Close</Button>
             </Space>
           )
         }
@@ -795,7 +1406,11 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
               </Descriptions.Item>
             </Descriptions>
 
-            {(selectedLog.service || selectedLog.method || selectedLog.traceId) && (
+            {(selectedLog.service ||
+              selectedLog.method ||
+              selectedLog.traceId ||
+              selectedLog.statusCode !== undefined ||
+              selectedLog.durationMs !== undefined) && (
               <>
                 <Divider orientation="left">Additional Information</Divider>
                 <Descriptions bordered column={1}>
@@ -811,12 +1426,51 @@ ${log.traceId ? `Trace ID: ${log.traceId}` : ''}
                   )}
                   {selectedLog.traceId && (
                     <Descriptions.Item label="Trace ID">
-                      <Paragraph copyable>{selectedLog.traceId}</Paragraph>
+                      <Space>
+                        <Paragraph copyable style={{ marginBottom: 0 }}>
+                          {selectedLog.traceId}
+                        </Paragraph>
+                        <Link to={getTracePath(selectedLog.traceId)}>
+                          <Button size="small" icon={<ApartmentOutlined />}>
+                            View trace
+                          </Button>
+                        </Link>
+                      </Space>
+                    </Descriptions.Item>
+                  )}
+                  {selectedLog.statusCode !== undefined && (
+                    <Descriptions.Item label="Status">
+                      <Tag color={selectedLog.statusCode === 0 ? 'green' : 'red'}>
+                        {selectedLog.statusCode} {getGrpcStatusName(selectedLog.statusCode)}
+                      </Tag>
+                    </Descriptions.Item>
+                  )}
+                  {selectedLog.durationMs !== undefined && (
+                    <Descriptions.Item label="Duration">
+                      {selectedLog.durationMs}ms
                     </Descriptions.Item>
                   )}
                 </Descriptions>
               </>
             )}
+
+            {selectedLog.data && Object.keys(selectedLog.data).length > 0 && (
+              <>
+                <Divider orientation="left">Data</Divider>
+                <Card size="small">
+                  <JsonTree value={selectedLog.data} />
+                </Card>
+              </>
+            )}
+
+            {selectedLog.stack && (
+              <>
+                <Divider orientation="left">Stack Trace</Divider>
+                <Card size="small">
+                  <StackTrace stack={selectedLog.stack} />
+                </Card>
+              </>
+            )}
           </>
         )}
       </Drawer>
@@ -1,4 +1,5 @@
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import {
   Table,
   Typography,
@@ -31,115 +32,314 @@ import {
   CloseCircleOutlined,
   SyncOutlined,
   ApiOutlined,
+  BarChartOutlined,
+  PlayCircleOutlined,
+  ProfileOutlined,
+  StopOutlined,
 } from '@ant-design/icons';
-import { GrpcServiceInfo } from '../types/api';
+import { GrpcServiceInfo, MethodStats, ServiceSchema } from '../types/api';
 import { format, formatDistanceToNow } from 'date-fns';
 import ApiService from '../services/api';
-import socketService from '../services/socket';
+import dataStore from '../services/dataStore';
+import { useDataStore, useResource } from '../hooks/useDataStore';
+import DataFreshness from '../components/DataFreshness';
 import { ColumnsType } from 'antd/es/table';
+import { calculateSuccessRate, methodStatsKey } from '../utils/metrics';
+import { getMethodPath, isMethodEnabled, withServingState } from '../utils/grpc';
+import { buildMessageTemplate, getStreamingKind, STREAMING_KINDS } from '../utils/protoSchema';
+import MethodInvoker from '../components/MethodInvoker';
+import SchemaBrowser from '../components/SchemaBrowser';
+import ServingSwitch from '../components/ServingSwitch';
+import ExportModal from '../components/ExportModal';
+import PermissionGuard from '../components/PermissionGuard';
+import { getSettings } from '../utils/settings';
+import { gradeSuccessRate, HealthLevel } from '../utils/health';
+import { ExportColumn } from '../utils/export';
+import { getServicePath, withSearchParam } from '../utils/urlState';
+import { usePermission } from '../hooks/usePermission';
 
 const { Title, Text, Paragraph } = Typography;
 const { Search } = Input;
 
+// An enable/disable request awaiting the backend's response
+interface PendingServingChange {
+  serviceId: string;
+  enabled: boolean;
+  method: string | undefined;
+}
+
+// Fields offered when exporting services
+const SERVICE_EXPORT_COLUMNS: ExportColumn<GrpcServiceInfo>[] = [
+  { key: 'id', label: 'ID', value: (service) => service.id, defaultSelected: false },
+  { key: 'name', label: 'Name', value: (service) => service.name },
+  { key: 'package', label: 'Package', value: (service) => service.package },
+  { key: 'status', label: 'Status', value: (service) => service.status },
+  { key: 'serving', label: 'Serving', value: (service) => !service.disabled },
+  { key: 'url', label: 'URL', value: (service) => service.url },
+  {
+    key: 'methods',
+    label: 'Methods',
+    value: (service) => service.methods,
+    text: (service) => service.methods.join(','),
+  },
+  {
+    key: 'disabledMethods',
+    label: 'Disabled Methods',
+    value: (service) => service.disabledMethods ?? [],
+    text: (service) => (service.disabledMethods ?? []).join(','),
+    defaultSelected: false,
+  },
+  { key: 'lastActivity', label: 'Last Activity', value: (service) => service.lastActivity },
+];
+
+// Text colour for a graded success rate
+const SUCCESS_RATE_TEXT_TYPES: Record<HealthLevel, 'success' | 'warning' | 'danger'> = {
+  healthy: 'success',
+  degraded: 'warning',
+  unhealthy: 'danger',
+};
+
 /**
  * Services component displays and manages gRPC services
  */
 const Services: React.FC = () => {
   // State management
-  const [services, setServices] = useState<GrpcServiceInfo[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { data: storedServices, loading, error } = useResource('services');
+  const socketConnected = useDataStore((state) => state.socketConnected);
   const [drawerVisible, setDrawerVisible] = useState(false);
   const [selectedService, setSelectedService] = useState<GrpcServiceInfo | null>(null);
-  const [searchText, setSearchText] = useState('');
-  const [refreshInterval, setRefreshInterval] = useState<number | null>(null);
-  const [socketConnected, setSocketConnected] = useState(socketService.isConnected());
   const [copiedMethodId, setCopiedMethodId] = useState<string | null>(null);
+  const [methodStats, setMethodStats] = useState<Record<string, MethodStats>>({});
+  const [methodStatsLoading, setMethodStatsLoading] = useState(false);
+  const [invokerMethod, setInvokerMethod] = useState<string | null>(null);
+  const [schema, setSchema] = useState<ServiceSchema | null>(null);
+  const [schemaLoading, setSchemaLoading] = useState(false);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [pendingToggles, setPendingToggles] = useState<string[]>([]);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [thresholds] = useState(() => getSettings().healthThresholds);
+
+  // The open service and search text live in the URL so they can be linked and bookmarked
+  const { serviceId } = useParams<{ serviceId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchText = searchParams.get('q') ?? '';
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Optimistic changes keyed by target, re-applied over updates that arrive while they are pending
+  const pendingChanges = useRef(new Map<string, PendingServingChange>());
+
+  // Invoking methods is limited to operators and above
+  const canInvoke = usePermission('methods:invoke');
+
+  // Overlay pending enable/disable changes so a stale update doesn't flip a switch back
+  const applyPendingChanges = useCallback((data: GrpcServiceInfo[]) => {
+    if (pendingChanges.current.size === 0) return data;
+    const changes = Array.from(pendingChanges.current.values());
+    return data.map((service) =>
+      changes
+        .filter((change) => change.serviceId === service.id)
+        .reduce(
+          (result, change) => withServingState(result, change.enabled, change.method),
+          service,
+        ),
+    );
+  }, []);
+
+  // Services from the store with any toggles still awaiting the backend applied
+  const services = useMemo(
+    () => (pendingToggles.length > 0 ? applyPendingChanges(storedServices) : storedServices),
+    [storedServices, pendingToggles, applyPendingChanges],
+  );
+
+  // Reload services from the backend
+  const fetchServices = useCallback(() => {
+    dataStore.refresh('services');
+  }, []);
+
+  // Stop or resume serving a service or one of its methods, updating the UI before the backend
+  // confirms and rolling back if it refuses
+  const toggleServing = useCallback(
+    async (service: GrpcServiceInfo, enabled: boolean, method?: string) => {
+      const target = method ? `${service.id}/${method}` : service.id;
+      const targetLabel = method ? `${service.name}.${method}` : service.name;
+
+      pendingChanges.current.set(target, { serviceId: service.id, enabled, method });
+      setPendingToggles((prev) => [...prev, target]);
 
-  // Load refresh interval from settings
-  useEffect(() => {
-    const savedSettings = localStorage.getItem('grpcDashboardSettings');
-    if (savedSettings) {
       try {
-        const { refreshInterval } = JSON.parse(savedSettings);
-        if (refreshInterval > 0) {
-          setRefreshInterval(refreshInterval * 1000); // Convert to milliseconds
-        }
+        const updated = method
+          ? await ApiService.setMethodEnabled(service.id, method, { enabled })
+          : await ApiService.setServiceEnabled(service.id, { enabled });
+
+        pendingChanges.current.delete(target);
+        dataStore.updateService(updated);
+        notification.success({
+          message: enabled ? 'Enabled' : 'Disabled',
+          description: `${targetLabel} ${enabled ? 'is being served again' : 'is no longer served'}.`,
+        });
       } catch (error) {
-        console.error('Failed to parse saved settings:', error);
+        console.error(`Error ${enabled ? 'enabling' : 'disabling'} ${targetLabel}:`, error);
+
+        // Dropping the pending change rolls the UI back to the stored state
+        pendingChanges.current.delete(target);
+
+        const errorMessage = error instanceof Error ? error.message : 'Request failed';
+        notification.error({
+          message: `Failed to ${enabled ? 'enable' : 'disable'} ${targetLabel}`,
+          description: errorMessage,
+        });
+      } finally {
+        setPendingToggles((prev) => prev.filter((t) => t !== target));
       }
-    }
+    },
+    [],
+  );
+
+  // Fetch per-method stats for the service shown in the drawer
+  useEffect(() => {
+    if (!drawerVisible || !selectedService) return;
 
-    // Set up socket connection listener
-    const connectHandler = () => setSocketConnected(true);
-    const disconnectHandler = () => setSocketConnected(false);
+    let cancelled = false;
+    setMethodStats({});
+    setMethodStatsLoading(true);
+    ApiService.getServiceStats(selectedService.name)
+      .then((data) => {
+        // Without the endpoint, the live stats below are all there is
+        if (!cancelled && data) setMethodStats(data);
+      })
+      .catch((error) => {
+        console.error('Error fetching method stats:', error);
+        if (!cancelled) setMethodStats({});
+      })
+      .finally(() => {
+        if (!cancelled) setMethodStatsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [drawerVisible, selectedService]);
+
+  // Keep the drawer's method stats live from the shared stats
+  const liveMethodStats = useDataStore((state) => state.stats.data?.methods);
+  useEffect(() => {
+    if (!drawerVisible || !selectedService || !liveMethodStats) return;
+    setMethodStats(
+      Object.fromEntries(
+        Object.entries(liveMethodStats).filter(([, m]) => m.service === selectedService.name),
+      ),
+    );
+  }, [drawerVisible, selectedService, liveMethodStats]);
+
+  // Fetch the proto schema for the service shown in the drawer
+  useEffect(() => {
+    if (!drawerVisible || !selectedService) return;
 
-    socketService.on('connect', connectHandler);
-    socketService.on('disconnect', disconnectHandler);
+    let cancelled = false;
+    setSchema(null);
+    setSchemaError(null);
+    setSchemaLoading(true);
+    ApiService.getServiceSchema(selectedService.id)
+      .then((data) => {
+        if (!cancelled) setSchema(data);
+      })
+      .catch((error) => {
+        console.error('Error fetching service schema:', error);
+        if (!cancelled) {
+          setSchemaError('The server did not provide reflection or proto definitions.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setSchemaLoading(false);
+      });
 
     return () => {
-      socketService.off('connect', connectHandler);
-      socketService.off('disconnect', disconnectHandler);
+      cancelled = true;
     };
-  }, []);
+  }, [drawerVisible, selectedService]);
 
-  // Fetch services data
-  const fetchServices = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await ApiService.getServices();
-      setServices(data);
-    } catch (error) {
-      console.error('Error fetching services:', error);
-      setError('Failed to fetch services. Please try again.');
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+  // Method descriptors from the schema, falling back to those sent with the service
+  const methodDescriptors = useMemo(() => {
+    const descriptors = schema?.methods ?? selectedService?.methodDescriptors ?? [];
+    return new Map(descriptors.map((descriptor) => [descriptor.name, descriptor]));
+  }, [schema, selectedService]);
 
-  // Handle service updates from WebSocket
-  const handleServicesUpdate = useCallback((servicesData: GrpcServiceInfo[]) => {
-    setServices(servicesData);
-  }, []);
+  // Request template for the method being invoked
+  const invokerTemplate = useMemo(() => {
+    const descriptor = invokerMethod ? methodDescriptors.get(invokerMethod) : undefined;
+    if (!schema || !descriptor) return undefined;
+    return JSON.stringify(buildMessageTemplate(schema, descriptor.inputType), null, 2);
+  }, [schema, methodDescriptors, invokerMethod]);
 
-  // Set up WebSocket listeners and fetch data on component mount
-  useEffect(() => {
-    fetchServices();
+  // Latest state of the drawer's service, including live and optimistic updates
+  const drawerService = useMemo(
+    () => services.find((service) => service.id === selectedService?.id) ?? selectedService,
+    [services, selectedService],
+  );
+
+  // Update the search text in the URL without adding history entries per keystroke
+  const setSearchText = useCallback(
+    (value: string) => {
+      setSearchParams((params) => withSearchParam(params, 'q', value), { replace: true });
+    },
+    [setSearchParams],
+  );
 
-    // Register socket event handler for service updates
-    const unsubscribeServices = socketService.on('services', handleServicesUpdate);
+  // Show service details
+  const showServiceDetails = useCallback(
+    (service: GrpcServiceInfo) => {
+      navigate({ pathname: getServicePath(service.id), search: location.search });
+    },
+    [navigate, location.search],
+  );
 
-    // Request data from WebSocket if connected
-    if (socketService.isConnected()) {
-      socketService.getServices();
+  // Close service details, keeping the search
+  const closeServiceDetails = useCallback(() => {
+    navigate({ pathname: getServicePath(), search: location.search });
+  }, [navigate, location.search]);
+
+  // Open the drawer for the service in the URL, loading it directly when it is not in the store yet
+  useEffect(() => {
+    setInvokerMethod(null);
+    if (!serviceId) {
+      setDrawerVisible(false);
+      return;
     }
 
-    // Auto-refresh setup
-    let intervalId: number | undefined;
-    if (refreshInterval) {
-      intervalId = window.setInterval(() => {
-        if (socketService.isConnected()) {
-          socketService.getServices();
-        } else {
-          fetchServices();
-        }
-      }, refreshInterval);
+    const known = dataStore.getState().services.data.find((service) => service.id === serviceId);
+    if (known) {
+      setSelectedService(known);
+      setDrawerVisible(true);
+      return;
     }
 
-    // Clean up on unmount
+    let cancelled = false;
+    ApiService.getServiceById(serviceId)
+      .then((service) => {
+        if (cancelled) return;
+        if (service) {
+          setSelectedService(service);
+          setDrawerVisible(true);
+          return;
+        }
+        notification.error({
+          message: 'Service Not Found',
+          description: `Could not load service "${serviceId}".`,
+        });
+        navigate(getServicePath(), { replace: true });
+      })
+      .catch((error) => {
+        // Other failures are already reported by the API client
+        if (cancelled) return;
+        console.error('Error fetching service:', error);
+        navigate(getServicePath(), { replace: true });
+      });
+
     return () => {
-      unsubscribeServices();
-      if (intervalId) clearInterval(intervalId);
-      ApiService.abortAllRequests(); // Abort any pending fetch requests
+      cancelled = true;
     };
-  }, [fetchServices, handleServicesUpdate, refreshInterval]);
-
-  // Show service details
-  const showServiceDetails = useCallback((service: GrpcServiceInfo) => {
-    setSelectedService(service);
-    setDrawerVisible(true);
-  }, []);
+  }, [serviceId, navigate]);
 
   // Format date for display
   const formatDate = useCallback((dateStr?: string) => {
@@ -185,7 +385,7 @@ const Services: React.FC = () => {
   // Copy method to clipboard
   const copyMethod = useCallback(
     (servicePackage: string, serviceName: string, methodName: string) => {
-      const methodPath = `/${servicePackage}.${serviceName}/${methodName}`;
+      const methodPath = getMethodPath(servicePackage, serviceName, methodName);
       copyToClipboard(methodPath, `Method path copied: ${methodPath}`);
 
       // Flash animation
@@ -208,32 +408,6 @@ const Services: React.FC = () => {
     );
   }, [services, searchText]);
 
-  // Export services to JSON
-  const exportServicesToJson = useCallback(() => {
-    try {
-      const dataStr = JSON.stringify(filteredServices, null, 2);
-      const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(dataStr);
-
-      const exportFileDefaultName = `grpc-services-${new Date().toISOString().slice(0, 10)}.json`;
-
-      const linkElement = document.createElement('a');
-      linkElement.setAttribute('href', dataUri);
-      linkElement.setAttribute('download', exportFileDefaultName);
-      linkElement.click();
-
-      notification.success({
-        message: 'Export Successful',
-        description: `${filteredServices.length} services exported to JSON.`,
-      });
-    } catch (error) {
-      console.error('Error exporting services:', error);
-      notification.error({
-        message: 'Export Failed',
-        description: 'Failed to export services to JSON.',
-      });
-    }
-  }, [filteredServices]);
-
   // Service statistics
   const serviceStats = useMemo(() => {
     const stats = {
@@ -281,6 +455,65 @@ const Services: React.FC = () => {
     [copyMethod, copiedMethodId],
   );
 
+  // Per-method stats rows for the drawer
+  const methodStatsRows = useMemo(() => {
+    if (!drawerService) return [];
+    return drawerService.methods.map((method) => {
+      const stats = methodStats[methodStatsKey(drawerService.name, method)];
+      return {
+        method,
+        totalRequests: stats?.totalRequests ?? 0,
+        failedRequests: stats?.failedRequests ?? 0,
+        avgResponseTime: stats?.avgResponseTime ?? 0,
+        successRate: stats ? calculateSuccessRate(stats) : null,
+      };
+    });
+  }, [drawerService, methodStats]);
+
+  const methodStatsColumns: ColumnsType<(typeof methodStatsRows)[number]> = useMemo(
+    () => [
+      {
+        title: 'Method',
+        dataIndex: 'method',
+        key: 'method',
+        sorter: (a, b) => a.method.localeCompare(b.method),
+        render: (method: string) => <Tag color="geekblue">{method}</Tag>,
+      },
+      {
+        title: 'Requests',
+        dataIndex: 'totalRequests',
+        key: 'totalRequests',
+        defaultSortOrder: 'descend',
+        sorter: (a, b) => a.totalRequests - b.totalRequests,
+        render: (value: number) => value.toLocaleString(),
+      },
+      {
+        title: 'Success',
+        dataIndex: 'successRate',
+        key: 'successRate',
+        sorter: (a, b) => (a.successRate ?? 100) - (b.successRate ?? 100),
+        render: (rate: number | null, record) =>
+          rate === null ? (
+            <Text type="secondary">N/A</Text>
+          ) : (
+            <Tooltip title={`${record.failedRequests} failed`}>
+              <Text type={SUCCESS_RATE_TEXT_TYPES[gradeSuccessRate(rate, thresholds)]}>
+                {rate.toFixed(1)}%
+              </Text>
+            </Tooltip>
+          ),
+      },
+      {
+        title: 'Avg',
+        dataIndex: 'avgResponseTime',
+        key: 'avgResponseTime',
+        sorter: (a, b) => a.avgResponseTime - b.avgResponseTime,
+        render: (value: number) => `${value.toFixed(1)}ms`,
+      },
+    ],
+    [thresholds],
+  );
+
   // Table columns
   const columns: ColumnsType<GrpcServiceInfo> = useMemo(
     () => [
@@ -364,24 +597,50 @@ const Services: React.FC = () => {
           { text: 'Inactive', value: 'inactive' },
         ],
         onFilter: (value, record) => record.status === value,
-        render: (status: string) => (
-          <Badge
-            status={status === 'active' ? 'success' : 'error'}
-            text={
-              <Tag color={status === 'active' ? 'green' : 'red'}>
-                {status === 'active' ? (
+        render: (status: string, record: GrpcServiceInfo) =>
+          record.disabled ? (
+            <Badge
+              status="warning"
+              text={
+                <Tag color="orange">
                   <Space>
-                    <CheckCircleOutlined />
-                    {status.toUpperCase()}
+                    <StopOutlined />
+                    DISABLED
                   </Space>
-                ) : (
-                  <Space>
-                    <CloseCircleOutlined />
-                    {status.toUpperCase()}
-                  </Space>
-                )}
-              </Tag>
-            }
+                </Tag>
+              }
+            />
+          ) : (
+            <Badge
+              status={status === 'active' ? 'success' : 'error'}
+              text={
+                <Tag color={status === 'active' ? 'green' : 'red'}>
+                  {status === 'active' ? (
+                    <Space>
+                      <CheckCircleOutlined />
+                      {status.toUpperCase()}
+                    </Space>
+                  ) : (
+                    <Space>
+                      <CloseCircleOutlined />
+                      {status.toUpperCase()}
+                    </Space>
+                  )}
+                </Tag>
+              }
+            />
+          ),
+      },
+      {
+        title: 'Serving',
+        key: 'serving',
+        width: 100,
+        render: (_: any, record: GrpcServiceInfo) => (
+          <ServingSwitch
+            enabled={!record.disabled}
+            label={record.name}
+            pending={pendingToggles.includes(record.id)}
+            onChange={(enabled) => toggleServing(record, enabled)}
           />
         ),
       },
@@ -429,7 +688,15 @@ const Services: React.FC = () => {
         ),
       },
     ],
-    [formatDate, formatRelativeTime, showServiceDetails, copyToClipboard, getMethodsPopover],
+    [
+      formatDate,
+      formatRelativeTime,
+      showServiceDetails,
+      copyToClipboard,
+      getMethodsPopover,
+      pendingToggles,
+      toggleServing,
+    ],
   );
 
   return (
@@ -442,21 +709,23 @@ const Services: React.FC = () => {
           )}
         </Space>
         <Space>
+          <DataFreshness resource="services" />
           <Search
             placeholder="Search services..."
             allowClear
+            value={searchText}
             onChange={(e) => setSearchText(e.target.value)}
             style={{ width: 250 }}
           />
-          <Tooltip title="Export Services">
+          <PermissionGuard permission="data:export">
             <Button
               icon={<DownloadOutlined />}
-              onClick={exportServicesToJson}
+              onClick={() => setExportOpen(true)}
               disabled={filteredServices.length === 0}
             >
               Export
             </Button>
-          </Tooltip>
+          </PermissionGuard>
           <Button
             type="primary"
             icon={<ReloadOutlined />}
@@ -542,37 +811,48 @@ const Services: React.FC = () => {
         </Spin>
       </Card>
 
+      <ExportModal
+        open={exportOpen}
+        title="Export Services"
+        rows={filteredServices}
+        columns={SERVICE_EXPORT_COLUMNS}
+        baseName="grpc-services"
+        itemLabel="services"
+        onClose={() => setExportOpen(false)}
+      />
+
       {/* Service Details Drawer */}
       <Drawer
         title={
           <Space>
             <span>Service Details</span>
-            {selectedService && (
-              <Tag color={selectedService.status === 'active' ? 'green' : 'red'}>
-                {selectedService.status.toUpperCase()}
+            {drawerService && (
+              <Tag color={drawerService.status === 'active' ? 'green' : 'red'}>
+                {drawerService.status.toUpperCase()}
               </Tag>
             )}
+            {drawerService?.disabled && <Tag color="orange">DISABLED</Tag>}
           </Space>
         }
         placement="right"
-        onClose={() => setDrawerVisible(false)}
+        onClose={closeServiceDetails}
         open={drawerVisible}
         width={550}
-        extra={<Button onClick={() => setDrawerVisible(false)}>Close</Button>}
+        extra={<Button onClick={closeServiceDetails}>Close</Button>}
       >
-        {selectedService && (
+        {drawerService && (
           <>
             <Descriptions bordered column={1} labelStyle={{ fontWeight: 'bold' }}>
               <Descriptions.Item label="Service Name">
                 <div
                   style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
                 >
-                  <Text>{selectedService.name}</Text>
+                  <Text>{drawerService.name}</Text>
                   <Button
                     type="text"
                     size="small"
                     icon={<CopyOutlined />}
-                    onClick={() => copyToClipboard(selectedService.name)}
+                    onClick={() => copyToClipboard(drawerService.name)}
                   />
                 </div>
               </Descriptions.Item>
@@ -580,12 +860,12 @@ const Services: React.FC = () => {
                 <div
                   style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
                 >
-                  <Text>{selectedService.package}</Text>
+                  <Text>{drawerService.package}</Text>
                   <Button
                     type="text"
                     size="small"
                     icon={<CopyOutlined />}
-                    onClick={() => copyToClipboard(selectedService.package)}
+                    onClick={() => copyToClipboard(drawerService.package)}
                   />
                 </div>
               </Descriptions.Item>
@@ -598,32 +878,40 @@ const Services: React.FC = () => {
                     wordBreak: 'break-all',
                   }}
                 >
-                  <Text>{selectedService.url}</Text>
+                  <Text>{drawerService.url}</Text>
                   <Button
                     type="text"
                     size="small"
                     icon={<CopyOutlined />}
-                    onClick={() => copyToClipboard(selectedService.url)}
+                    onClick={() => copyToClipboard(drawerService.url)}
                   />
                 </div>
               </Descriptions.Item>
               <Descriptions.Item label="Status">
                 <Space align="center">
                   <Badge
-                    status={selectedService.status === 'active' ? 'success' : 'error'}
-                    text={selectedService.status.toUpperCase()}
+                    status={drawerService.status === 'active' ? 'success' : 'error'}
+                    text={drawerService.status.toUpperCase()}
                   />
-                  {selectedService.status === 'inactive' && (
+                  {drawerService.status === 'inactive' && (
                     <Text type="secondary">(Service is not responding)</Text>
                   )}
                 </Space>
               </Descriptions.Item>
+              <Descriptions.Item label="Serving">
+                <ServingSwitch
+                  enabled={!drawerService.disabled}
+                  label={drawerService.name}
+                  pending={pendingToggles.includes(drawerService.id)}
+                  onChange={(enabled) => toggleServing(drawerService, enabled)}
+                />
+              </Descriptions.Item>
               <Descriptions.Item label="Last Activity">
-                {selectedService.lastActivity ? (
+                {drawerService.lastActivity ? (
                   <>
-                    <div>{formatDate(selectedService.lastActivity)}</div>
+                    <div>{formatDate(drawerService.lastActivity)}</div>
                     <div style={{ color: 'rgba(0, 0, 0, 0.45)', fontSize: '0.9em' }}>
-                      ({formatRelativeTime(selectedService.lastActivity)})
+                      ({formatRelativeTime(drawerService.lastActivity)})
                     </div>
                   </>
                 ) : (
@@ -633,14 +921,21 @@ const Services: React.FC = () => {
             </Descriptions>
 
             <Title level={5} style={{ margin: '24px 0 12px' }}>
-              Methods ({selectedService.methods.length})
+              Methods ({drawerService.methods.length})
             </Title>
 
             <Card size="small" bodyStyle={{ maxHeight: '300px', overflow: 'auto' }}>
               <Space size={[0, 8]} direction="vertical" style={{ width: '100%' }}>
-                {selectedService.methods.map((method) => {
-                  const methodId = `${selectedService.name}-${method}`;
-                  const methodPath = `/${selectedService.package}.${selectedService.name}/${method}`;
+                {drawerService.methods.map((method) => {
+                  const methodId = `${drawerService.name}-${method}`;
+                  const methodPath = getMethodPath(
+                    drawerService.package,
+                    drawerService.name,
+                    method,
+                  );
+                  const descriptor = methodDescriptors.get(method);
+                  const streaming = descriptor && STREAMING_KINDS[getStreamingKind(descriptor)];
+                  const methodTarget = `${drawerService.id}/${method}`;
 
                   return (
                     <div
@@ -657,26 +952,86 @@ const Services: React.FC = () => {
                       }}
                     >
                       <div>
-                        <Tag color="geekblue">{method}</Tag>
+                        <Tag
+                          color={
+                            !drawerService || isMethodEnabled(drawerService, method)
+                              ? 'geekblue'
+                              : 'default'
+                          }
+                        >
+                          {method}
+                        </Tag>
+                        {streaming && <Tag color={streaming.color}>{streaming.label}</Tag>}
                         <Text type="secondary" style={{ fontSize: '12px' }}>
                           {methodPath}
                         </Text>
                       </div>
-                      <Button
-                        type="text"
-                        size="small"
-                        icon={<CopyOutlined />}
-                        onClick={() =>
-                          copyMethod(selectedService.package, selectedService.name, method)
-                        }
-                      />
+                      <Space size={4}>
+                        <ServingSwitch
+                          size="small"
+                          enabled={!drawerService.disabledMethods?.includes(method)}
+                          label={`${drawerService.name}.${method}`}
+                          pending={pendingToggles.includes(methodTarget)}
+                          onChange={(enabled) => toggleServing(drawerService, enabled, method)}
+                        />
+                        <PermissionGuard permission="methods:invoke" title="Try it">
+                          <Button
+                            type="text"
+                            size="small"
+                            icon={<PlayCircleOutlined />}
+                            onClick={() => setInvokerMethod(method)}
+                          />
+                        </PermissionGuard>
+                        <Button
+                          type="text"
+                          size="small"
+                          icon={<CopyOutlined />}
+                          onClick={() =>
+                            copyMethod(drawerService.package, drawerService.name, method)
+                          }
+                        />
+                      </Space>
                     </div>
                   );
                 })}
               </Space>
             </Card>
 
-            {selectedService.status === 'inactive' && (
+            <Title level={5} style={{ margin: '24px 0 12px' }}>
+              <Space>
+                <BarChartOutlined />
+                Method Statistics
+              </Space>
+            </Title>
+
+            <Table
+              dataSource={methodStatsRows}
+              columns={methodStatsColumns}
+              rowKey="method"
+              size="small"
+              loading={methodStatsLoading}
+              pagination={false}
+              scroll={{ y: 300 }}
+            />
+
+            <Title level={5} style={{ margin: '24px 0 12px' }}>
+              <Space>
+                <ProfileOutlined />
+                Schema
+                {schema && <Tag>{schema.source === 'reflection' ? 'Reflection' : '.proto'}</Tag>}
+              </Space>
+            </Title>
+
+            <Card size="small">
+              <SchemaBrowser
+                schema={schema}
+                loading={schemaLoading}
+                error={schemaError}
+                onTryMethod={canInvoke ? setInvokerMethod : undefined}
+              />
+            </Card>
+
+            {drawerService.status === 'inactive' && (
               <Alert
                 message="Service Inactive"
                 description="This service is currently inactive and not responding to requests. It may be down, undergoing maintenance, or experiencing issues."
@@ -688,6 +1043,29 @@ const Services: React.FC = () => {
             )}
           </>
         )}
+
+        {/* Method Invoker Drawer */}
+        <Drawer
+          title={
+            <Space>
+              <PlayCircleOutlined />
+              <span>Try {invokerMethod}</span>
+            </Space>
+          }
+          placement="right"
+          onClose={() => setInvokerMethod(null)}
+          open={!!invokerMethod}
+          width={600}
+          destroyOnClose
+        >
+          {drawerService && invokerMethod && (
+            <MethodInvoker
+              service={drawerService}
+              method={invokerMethod}
+              initialBody={invokerTemplate}
+            />
+          )}
+        </Drawer>
       </Drawer>
     </div>
   );
@@ -5,7 +5,6 @@ import {
   Select,
   Switch,
   Button,
-  Input,
   Typography,
   message,
   Space,
@@ -16,6 +15,7 @@ import {
   Row,
   Col,
   Modal,
+  InputNumber,
 } from 'antd';
 import {
   SaveOutlined,
@@ -26,62 +26,45 @@ import {
   ImportOutlined,
   WarningOutlined,
 } from '@ant-design/icons';
-import { LogLevel } from '../types/api';
-import socketService from '../services/socket';
+import environmentService from '../services/environments';
+import dataStore from '../services/dataStore';
+import { useDataStore } from '../hooks/useDataStore';
+import AlertRulesEditor from '../components/AlertRulesEditor';
+import EnvironmentsEditor from '../components/EnvironmentsEditor';
+import PermissionGuard from '../components/PermissionGuard';
+import {
+  DashboardSettings,
+  DEFAULT_SETTINGS,
+  mergeSettings,
+  SETTINGS_STORAGE_KEY,
+} from '../utils/settings';
 
 const { Title, Text, Paragraph } = Typography;
 const { Option } = Select;
 const { confirm } = Modal;
 
-interface SettingsState {
-  logLevel: LogLevel;
-  refreshInterval: number;
-  darkMode: boolean;
-  socketUrl: string;
-}
-
 /**
  * Settings component for managing application preferences
  */
 const Settings: React.FC = () => {
-  const [settings, setSettings] = useState<SettingsState>({
-    logLevel: 'info',
-    refreshInterval: 5,
-    darkMode: false,
-    socketUrl: window.location.origin,
-  });
+  const [settings, setSettings] = useState<DashboardSettings>(DEFAULT_SETTINGS);
   const [form] = Form.useForm();
-  const [connected, setConnected] = useState(socketService.isConnected());
+  const connected = useDataStore((state) => state.socketConnected);
   const [settingsChanged, setSettingsChanged] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
 
   // Initialize settings from localStorage
   useEffect(() => {
     loadSettings();
-
-    // Set up socket connection listener
-    const connectHandler = () => setConnected(true);
-    const disconnectHandler = () => setConnected(false);
-
-    socketService.on('connect', connectHandler);
-    socketService.on('disconnect', disconnectHandler);
-
-    return () => {
-      socketService.off('connect', connectHandler);
-      socketService.off('disconnect', disconnectHandler);
-    };
   }, []);
 
   // Load settings from localStorage
   const loadSettings = useCallback(() => {
-    const savedSettings = localStorage.getItem('grpcDashboardSettings');
+    const savedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
     if (savedSettings) {
       try {
-        const parsedSettings = JSON.parse(savedSettings);
-        setSettings((prevSettings) => ({
-          ...prevSettings,
-          ...parsedSettings,
-        }));
+        const parsedSettings = mergeSettings(JSON.parse(savedSettings));
+        setSettings(parsedSettings);
         form.setFieldsValue(parsedSettings);
         setSettingsChanged(false);
       } catch (error) {
@@ -93,9 +76,10 @@ const Settings: React.FC = () => {
 
   // Save settings to localStorage
   const saveSettings = useCallback(
-    (values: SettingsState) => {
+    (values: DashboardSettings) => {
       try {
-        localStorage.setItem('grpcDashboardSettings', JSON.stringify(values));
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(values));
+        dataStore.setRefreshInterval(values.refreshInterval);
         setSettings(values);
         setSettingsChanged(false);
         message.success('Settings saved successfully');
@@ -129,34 +113,26 @@ const Settings: React.FC = () => {
       content:
         'This will reset all settings to their default values. This action cannot be undone.',
       onOk() {
-        const defaultSettings = {
-          logLevel: 'info' as LogLevel,
-          refreshInterval: 5,
-          darkMode: false,
-          socketUrl: window.location.origin,
-        };
-
-        form.setFieldsValue(defaultSettings);
-        localStorage.removeItem('grpcDashboardSettings');
-        setSettings(defaultSettings);
+        form.setFieldsValue(DEFAULT_SETTINGS);
+        localStorage.removeItem(SETTINGS_STORAGE_KEY);
+        dataStore.setRefreshInterval(DEFAULT_SETTINGS.refreshInterval);
+        setSettings(DEFAULT_SETTINGS);
         setSettingsChanged(false);
         message.success('Settings reset to defaults');
       },
     });
   }, [form]);
 
-  // Reconnect socket with new URL
+  // Reconnect socket to the active environment
   const reconnectSocket = useCallback(() => {
     try {
-      const url = form.getFieldValue('socketUrl');
-      socketService.disconnect();
-      socketService.connect(url);
+      environmentService.apply();
       message.success('Socket reconnected');
     } catch (error) {
       console.error('Failed to reconnect socket:', error);
       message.error('Failed to reconnect socket');
     }
-  }, [form]);
+  }, []);
 
   // Export settings to JSON file
   const exportSettings = useCallback(() => {
@@ -195,14 +171,13 @@ const Settings: React.FC = () => {
           if (
             !importedSettings.logLevel ||
             importedSettings.refreshInterval === undefined ||
-            importedSettings.darkMode === undefined ||
-            !importedSettings.socketUrl
+            importedSettings.darkMode === undefined
           ) {
             throw new Error('Invalid settings format');
           }
 
           // Apply imported settings
-          form.setFieldsValue(importedSettings);
+          form.setFieldsValue(mergeSettings(importedSettings));
           setSettingsChanged(true);
           message.success('Settings imported successfully. Click Save to apply.');
         } catch (error) {
@@ -320,26 +295,76 @@ const Settings: React.FC = () => {
               </Form.Item>
 
               <Divider />
-              <Title level={5}>Connection Settings</Title>
-
-              <Form.Item
-                name="socketUrl"
-                label="WebSocket Server URL"
-                help="The URL of the gRPC dashboard WebSocket server"
-                rules={[
-                  { required: true, message: 'Please enter a valid URL' },
-                  { type: 'url', message: 'Please enter a valid URL' },
-                ]}
-              >
-                <Input
-                  placeholder="http://localhost:3000"
-                  addonAfter={
-                    <Tooltip title="Reconnect to WebSocket server">
-                      <ReloadOutlined onClick={reconnectSocket} style={{ cursor: 'pointer' }} />
-                    </Tooltip>
-                  }
-                />
-              </Form.Item>
+              <Title level={5}>Health Thresholds</Title>
+              <Paragraph type="secondary">
+                System health on the Dashboard and Statistics pages is graded on success rate and
+                p95 response time.
+              </Paragraph>
+
+              <Row gutter={16}>
+                <Col span={12}>
+                  <Form.Item
+                    name={['healthThresholds', 'successRate', 'healthy']}
+                    label="Healthy success rate above"
+                    rules={[{ required: true, message: 'Please enter a threshold' }]}
+                  >
+                    <InputNumber min={0} max={100} step={0.5} addonAfter="%" />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item
+                    name={['healthThresholds', 'successRate', 'degraded']}
+                    label="Degraded success rate above"
+                    dependencies={[['healthThresholds', 'successRate', 'healthy']]}
+                    rules={[
+                      { required: true, message: 'Please enter a threshold' },
+                      ({ getFieldValue }) => ({
+                        validator(_, value) {
+                          const healthy = getFieldValue([
+                            'healthThresholds',
+                            'successRate',
+                            'healthy',
+                          ]);
+                          return value === undefined || value <= healthy
+                            ? Promise.resolve()
+                            : Promise.reject(new Error('Must not exceed the healthy threshold'));
+                        },
+                      }),
+                    ]}
+                  >
+                    <InputNumber min={0} max={100} step={0.5} addonAfter="%" />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item
+                    name={['healthThresholds', 'p95', 'healthy']}
+                    label="Healthy p95 response time below"
+                    rules={[{ required: true, message: 'Please enter a threshold' }]}
+                  >
+                    <InputNumber min={1} addonAfter="ms" />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item
+                    name={['healthThresholds', 'p95', 'degraded']}
+                    label="Degraded p95 response time below"
+                    dependencies={[['healthThresholds', 'p95', 'healthy']]}
+                    rules={[
+                      { required: true, message: 'Please enter a threshold' },
+                      ({ getFieldValue }) => ({
+                        validator(_, value) {
+                          const healthy = getFieldValue(['healthThresholds', 'p95', 'healthy']);
+                          return value === undefined || value >= healthy
+                            ? Promise.resolve()
+                            : Promise.reject(new Error('Must not be below the healthy threshold'));
+                        },
+                      }),
+                    ]}
+                  >
+                    <InputNumber min={1} addonAfter="ms" />
+                  </Form.Item>
+                </Col>
+              </Row>
             </Col>
 
             <Col span={24} md={12} lg={8}>
@@ -421,13 +446,28 @@ const Settings: React.FC = () => {
               >
                 Save Settings
               </Button>
-              <Button icon={<ClearOutlined />} onClick={resetSettings} danger>
-                Reset to Defaults
-              </Button>
+              <PermissionGuard permission="settings:manage">
+                <Button icon={<ClearOutlined />} onClick={resetSettings} danger>
+                  Reset to Defaults
+                </Button>
+              </PermissionGuard>
             </Space>
           </Form.Item>
         </Form>
       </Card>
+
+      <Card bordered={false} title="Environments" style={{ marginTop: 16 }}>
+        <EnvironmentsEditor />
+      </Card>
+
+      <Card
+        bordered={false}
+        title="Alert Rules"
+        extra={<Text type="secondary">Changes to rules apply immediately</Text>}
+        style={{ marginTop: 16 }}
+      >
+        <AlertRulesEditor />
+      </Card>
     </div>
   );
 };
@@ -6,7 +6,6 @@ import {
   Statistic,
   Typography,
   Button,
-  Divider,
   Alert,
   Tooltip,
   Spin,
@@ -15,6 +14,7 @@ import {
   Tabs,
   Empty,
   Space,
+  Segmented,
 } from 'antd';
 import {
   ReloadOutlined,
@@ -27,137 +27,109 @@ import {
   CloudServerOutlined,
   InfoCircleOutlined,
   WarningOutlined,
+  LineChartOutlined,
+  PartitionOutlined,
+  BarChartOutlined,
 } from '@ant-design/icons';
-import { StatsData, SystemInfo } from '../types/api';
-import ApiService from '../services/api';
-import socketService from '../services/socket';
-
-const { Title, Text, Paragraph } = Typography;
+import { StatsData } from '../types/api';
+import dataStore from '../services/dataStore';
+import statsHistory, { StatsSnapshot } from '../services/statsHistory';
+import {
+  buildMetricSeries,
+  calculateSuccessRate,
+  TIME_WINDOWS,
+  TimeWindowKey,
+} from '../utils/metrics';
+import TimeSeriesChart, { ChartDatum } from '../components/charts/TimeSeriesChart';
+import ServiceStatsTable from '../components/ServiceStatsTable';
+import LatencyHistogram from '../components/charts/LatencyHistogram';
+import { getSettings } from '../utils/settings';
+import { useDataStore, useResource } from '../hooks/useDataStore';
+import DataFreshness from '../components/DataFreshness';
+import {
+  getHealthStatus,
+  gradeLatency,
+  gradeSuccessRate,
+  HealthLevel,
+  HEALTH_COLORS,
+  HEALTH_LABELS,
+} from '../utils/health';
+
+const { Title, Text } = Typography;
 const { TabPane } = Tabs;
 
+const EMPTY_STATS: StatsData = {
+  totalRequests: 0,
+  successfulRequests: 0,
+  failedRequests: 0,
+  avgResponseTime: 0,
+};
+
+const HEALTH_BADGE_STATUS: Record<HealthLevel, 'success' | 'warning' | 'error'> = {
+  healthy: 'success',
+  degraded: 'warning',
+  unhealthy: 'error',
+};
+
+const HEALTH_PROGRESS_STATUS: Record<HealthLevel, 'success' | 'normal' | 'exception'> = {
+  healthy: 'success',
+  degraded: 'normal',
+  unhealthy: 'exception',
+};
+
 /**
  * Stats component for displaying system statistics and performance metrics
  */
 const Stats: React.FC = () => {
-  const [stats, setStats] = useState<StatsData>({
-    totalRequests: 0,
-    successfulRequests: 0,
-    failedRequests: 0,
-    avgResponseTime: 0,
-  });
-  const [systemInfo, setSystemInfo] = useState<SystemInfo | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [refreshInterval, setRefreshInterval] = useState<number | null>(null);
-  const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
-  const [socketConnected, setSocketConnected] = useState(socketService.isConnected());
-
-  // Load refresh interval from settings
-  useEffect(() => {
-    const savedSettings = localStorage.getItem('grpcDashboardSettings');
-    if (savedSettings) {
-      try {
-        const { refreshInterval } = JSON.parse(savedSettings);
-        if (refreshInterval > 0) {
-          setRefreshInterval(refreshInterval * 1000); // Convert to milliseconds
-        }
-      } catch (error) {
-        console.error('Failed to parse saved settings:', error);
-      }
-    }
-
-    // Set up socket connection listener
-    const connectHandler = () => setSocketConnected(true);
-    const disconnectHandler = () => setSocketConnected(false);
-
-    socketService.on('connect', connectHandler);
-    socketService.on('disconnect', disconnectHandler);
-
-    return () => {
-      socketService.off('connect', connectHandler);
-      socketService.off('disconnect', disconnectHandler);
-    };
-  }, []);
-
-  // Fetch statistics data
+  // Shared data, loaded once and kept live by the store
+  const statsResource = useResource('stats');
+  const systemInfoResource = useResource('systemInfo');
+  const socketConnected = useDataStore((state) => state.socketConnected);
+  const [history, setHistory] = useState<StatsSnapshot[]>(() => statsHistory.getSnapshots());
+  const [timeWindow, setTimeWindow] = useState<TimeWindowKey>('5m');
+  const [thresholds] = useState(() => getSettings().healthThresholds);
+
+  const stats: StatsData = statsResource.data ?? EMPTY_STATS;
+  const systemInfo = systemInfoResource.data;
+  const loading = statsResource.loading || systemInfoResource.loading;
+  const error = statsResource.error ?? systemInfoResource.error;
+
+  // Reload statistics and system info from the backend
   const fetchStats = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const statsData = await ApiService.getStats();
-      setStats(statsData);
-
-      // Also fetch system info
-      const sysInfo = await ApiService.getSystemInfo();
-      setSystemInfo(sysInfo);
-
-      setLastUpdated(new Date());
-    } catch (error) {
-      console.error('Error fetching statistics:', error);
-      setError('Failed to fetch statistics data. Please try again.');
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  // Handle stats updates from WebSocket
-  const handleStatsUpdate = useCallback((statsData: StatsData) => {
-    setStats(statsData);
-    setLastUpdated(new Date());
+    await Promise.all([dataStore.refresh('stats'), dataStore.refresh('systemInfo')]);
   }, []);
 
-  // Set up WebSocket listeners and fetch data on component mount
+  // Keep the charted history in sync with the recorder
   useEffect(() => {
-    fetchStats();
-
-    // Register socket event handler for stats updates
-    const unsubscribeStats = socketService.on('stats', handleStatsUpdate);
-
-    // Request data from WebSocket if connected
-    if (socketService.isConnected()) {
-      socketService.getStats();
-    }
-
-    // Auto-refresh setup
-    let intervalId: number | undefined;
-    if (refreshInterval) {
-      intervalId = window.setInterval(() => {
-        if (socketService.isConnected()) {
-          socketService.getStats();
-        } else {
-          fetchStats();
-        }
-      }, refreshInterval);
-    }
-
-    // Clean up on unmount
-    return () => {
-      unsubscribeStats();
-      if (intervalId) clearInterval(intervalId);
-      ApiService.abortAllRequests(); // Abort any pending fetch requests
-    };
-  }, [fetchStats, handleStatsUpdate, refreshInterval]);
+    return statsHistory.subscribe((snapshots) => setHistory([...snapshots]));
+  }, []);
 
   // Calculate success rate percentage
-  const successRate = useMemo(() => {
-    if (stats.totalRequests === 0) return 0;
-    return ((stats.successfulRequests / stats.totalRequests) * 100).toFixed(1);
-  }, [stats.totalRequests, stats.successfulRequests]);
-
-  // Calculate health status
-  const healthStatus = useMemo(() => {
-    const successRateNum = parseFloat(successRate);
-    const responseTimeOk = stats.avgResponseTime < 50;
-
-    if (successRateNum > 95 && responseTimeOk) {
-      return { status: 'healthy', color: 'green', text: 'Healthy' };
-    } else if (successRateNum > 80 && stats.avgResponseTime < 200) {
-      return { status: 'warning', color: 'orange', text: 'Degraded' };
-    } else {
-      return { status: 'unhealthy', color: 'red', text: 'Unhealthy' };
-    }
-  }, [successRate, stats.avgResponseTime]);
+  const successRate = useMemo(() => calculateSuccessRate(stats), [stats]);
+
+  // Grade health from success rate and p95 latency against the configured thresholds
+  const healthStatus = useMemo(() => getHealthStatus(stats, thresholds), [stats, thresholds]);
+
+  // Bucket the recorded history for the selected time window
+  const trendSeries = useMemo(() => {
+    const { ms, bucketMs } = TIME_WINDOWS[timeWindow];
+    const points = buildMetricSeries(history, ms, bucketMs);
+
+    const volume: ChartDatum[] = points.map((point) => ({
+      timestamp: point.timestamp,
+      values: { requests: point.requests },
+    }));
+    const outcomes: ChartDatum[] = points.map((point) => ({
+      timestamp: point.timestamp,
+      values: { successful: point.successful, failed: point.failed },
+    }));
+    const latency: ChartDatum[] = points.map((point) => ({
+      timestamp: point.timestamp,
+      values: { avgResponseTime: point.avgResponseTime },
+    }));
+
+    return { volume, outcomes, latency, bucketMs };
+  }, [history, timeWindow]);
 
   // Format uptime in a human-readable way
   const formatUptime = useCallback((seconds: number) => {
@@ -177,21 +149,6 @@ const Stats: React.FC = () => {
     return parts.join(', ');
   }, []);
 
-  // Format time since last update
-  const lastUpdateText = useMemo(() => {
-    const now = new Date();
-    const diffInSeconds = Math.floor((now.getTime() - lastUpdated.getTime()) / 1000);
-
-    if (diffInSeconds < 60) {
-      return `${diffInSeconds} second${diffInSeconds !== 1 ? 's' : ''} ago`;
-    } else if (diffInSeconds < 3600) {
-      const minutes = Math.floor(diffInSeconds / 60);
-      return `${minutes} minute${minutes !== 1 ? 's' : ''} ago`;
-    } else {
-      return lastUpdated.toLocaleTimeString();
-    }
-  }, [lastUpdated]);
-
   return (
     <div className="stats-container">
       <div className="table-header-actions">
@@ -202,7 +159,7 @@ const Stats: React.FC = () => {
           )}
         </Space>
         <Space>
-          <Text type="secondary">Last updated: {lastUpdateText}</Text>
+          <DataFreshness resource="stats" />
           <Button type="primary" icon={<ReloadOutlined />} onClick={fetchStats} loading={loading}>
             Refresh
           </Button>
@@ -304,31 +261,26 @@ const Stats: React.FC = () => {
                         </Space>
                       </Tooltip>
                     }
-                    value={successRate}
-                    suffix="%"
+                    value={successRate ?? '—'}
+                    suffix={successRate !== null ? '%' : undefined}
                     precision={1}
                     valueStyle={{
                       color:
-                        parseFloat(successRate) > 95
-                          ? '#3f8600'
-                          : parseFloat(successRate) > 80
-                            ? '#faad14'
-                            : '#cf1322',
+                        successRate !== null
+                          ? HEALTH_COLORS[gradeSuccessRate(successRate, thresholds)]
+                          : undefined,
                     }}
                     prefix={<CheckCircleOutlined />}
                   />
-                  <Progress
-                    percent={parseFloat(successRate)}
-                    showInfo={false}
-                    status={
-                      parseFloat(successRate) > 95
-                        ? 'success'
-                        : parseFloat(successRate) > 80
-                          ? 'normal'
-                          : 'exception'
-                    }
-                    style={{ marginTop: 8 }}
-                  />
+                  {/* Without requests there is no rate to grade */}
+                  {successRate !== null && (
+                    <Progress
+                      percent={Number(successRate.toFixed(1))}
+                      showInfo={false}
+                      status={HEALTH_PROGRESS_STATUS[gradeSuccessRate(successRate, thresholds)]}
+                      style={{ marginTop: 8 }}
+                    />
+                  )}
                 </Card>
               </Col>
             </Row>
@@ -345,38 +297,72 @@ const Stats: React.FC = () => {
             >
               <Row gutter={16}>
                 <Col span={24} md={12}>
-                  <Statistic
-                    title={
-                      <Tooltip title="Average response time for gRPC requests">
-                        <Space>
-                          <span>Average Response Time</span>
-                          <InfoCircleOutlined style={{ color: 'rgba(0, 0, 0, 0.45)' }} />
-                        </Space>
-                      </Tooltip>
-                    }
-                    value={stats.avgResponseTime}
-                    suffix="ms"
-                    precision={1}
-                    valueStyle={{
-                      color:
-                        stats.avgResponseTime < 50
-                          ? '#3f8600'
-                          : stats.avgResponseTime < 200
-                            ? '#faad14'
-                            : '#cf1322',
-                      fontSize: '2rem',
-                    }}
-                  />
+                  <Row gutter={[16, 16]}>
+                    <Col span={12}>
+                      <Statistic
+                        title={
+                          <Tooltip title="95th percentile response time, used to grade system health">
+                            <Space>
+                              <span>p95 Response Time</span>
+                              <InfoCircleOutlined style={{ color: 'rgba(0, 0, 0, 0.45)' }} />
+                            </Space>
+                          </Tooltip>
+                        }
+                        value={stats.latency ? stats.latency.p95 : '—'}
+                        suffix={stats.latency ? 'ms' : undefined}
+                        precision={1}
+                        valueStyle={{
+                          color: stats.latency
+                            ? HEALTH_COLORS[gradeLatency(stats.latency.p95, thresholds)]
+                            : undefined,
+                          fontSize: '2rem',
+                        }}
+                      />
+                    </Col>
+                    <Col span={12}>
+                      <Statistic
+                        title={
+                          <Tooltip title="Average response time for gRPC requests">
+                            <Space>
+                              <span>Average Response Time</span>
+                              <InfoCircleOutlined style={{ color: 'rgba(0, 0, 0, 0.45)' }} />
+                            </Space>
+                          </Tooltip>
+                        }
+                        value={stats.avgResponseTime}
+                        suffix="ms"
+                        precision={1}
+                        valueStyle={{ fontSize: '2rem' }}
+                      />
+                    </Col>
+                    {stats.latency &&
+                      (['p50', 'p90', 'p95', 'p99'] as const).map((percentile) => (
+                        <Col span={6} key={percentile}>
+                          <Statistic
+                            title={percentile}
+                            value={stats.latency![percentile]}
+                            suffix="ms"
+                            precision={1}
+                            valueStyle={{ fontSize: '1rem' }}
+                          />
+                        </Col>
+                      ))}
+                  </Row>
                   <div style={{ marginTop: 16 }}>
                     <Space>
-                      <Badge status={stats.avgResponseTime < 50 ? 'success' : 'warning'} />
+                      <Badge status={HEALTH_BADGE_STATUS[healthStatus.latency]} />
                       <Text>
-                        {stats.avgResponseTime < 50
+                        {healthStatus.latency === 'healthy'
                           ? 'Good performance'
-                          : stats.avgResponseTime < 200
+                          : healthStatus.latency === 'degraded'
                             ? 'Acceptable performance'
                             : 'Poor performance'}
                       </Text>
+                      {healthStatus.p95Estimated && (
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          (graded on average; server does not report percentiles)
+                        </Text>
+                      )}
                     </Space>
                   </div>
                 </Col>
@@ -384,43 +370,29 @@ const Stats: React.FC = () => {
                   <Card title="System Health" size="small" style={{ height: '100%' }}>
                     <div style={{ textAlign: 'center', padding: '8px 0' }}>
                       <Badge
-                        status={
-                          healthStatus.status === 'healthy'
-                            ? 'success'
-                            : healthStatus.status === 'warning'
-                              ? 'warning'
-                              : 'error'
-                        }
+                        status={HEALTH_BADGE_STATUS[healthStatus.overall]}
                         text={
                           <Text
                             style={{
                               fontSize: '16px',
                               fontWeight: 500,
-                              color:
-                                healthStatus.status === 'healthy'
-                                  ? '#3f8600'
-                                  : healthStatus.status === 'warning'
-                                    ? '#faad14'
-                                    : '#cf1322',
+                              color: HEALTH_COLORS[healthStatus.overall],
                             }}
                           >
-                            System is {healthStatus.text}
+                            System is {HEALTH_LABELS[healthStatus.overall]}
                           </Text>
                         }
                       />
                     </div>
                     <div style={{ marginTop: 16 }}>
-                      {healthStatus.status !== 'healthy' && (
+                      {healthStatus.overall !== 'healthy' && (
                         <Alert
                           message="Performance Issues Detected"
                           description={
                             <ul style={{ paddingLeft: 20, marginBottom: 0 }}>
-                              {parseFloat(successRate) < 95 && (
-                                <li>Low success rate ({successRate}%)</li>
-                              )}
-                              {stats.avgResponseTime >= 50 && (
-                                <li>High response time ({stats.avgResponseTime}ms)</li>
-                              )}
+                              {healthStatus.issues.map((issue) => (
+                                <li key={issue}>{issue}</li>
+                              ))}
                             </ul>
                           }
                           type="warning"
@@ -428,7 +400,7 @@ const Stats: React.FC = () => {
                           icon={<WarningOutlined />}
                         />
                       )}
-                      {healthStatus.status === 'healthy' && (
+                      {healthStatus.overall === 'healthy' && (
                         <Alert
                           message="All Systems Operational"
                           description="All performance metrics are within normal ranges."
@@ -441,6 +413,98 @@ const Stats: React.FC = () => {
                 </Col>
               </Row>
             </Card>
+
+            <Card
+              title={
+                <Space>
+                  <BarChartOutlined />
+                  <span>Latency Distribution</span>
+                </Space>
+              }
+              bordered={false}
+              style={{ marginTop: 16 }}
+            >
+              <LatencyHistogram
+                buckets={stats.latency?.histogram}
+                highlightFrom={thresholds.p95.healthy}
+              />
+            </Card>
+
+            <Card
+              title={
+                <Space>
+                  <LineChartOutlined />
+                  <span>Request Trends</span>
+                </Space>
+              }
+              extra={
+                <Segmented
+                  size="small"
+                  value={timeWindow}
+                  onChange={(value) => setTimeWindow(value as TimeWindowKey)}
+                  options={Object.entries(TIME_WINDOWS).map(([key, { label }]) => ({
+                    label: key,
+                    value: key,
+                    title: label,
+                  }))}
+                />
+              }
+              bordered={false}
+              style={{ marginTop: 16 }}
+            >
+              <Row gutter={[16, 24]}>
+                <Col span={24} xl={12}>
+                  <Text strong>Request Volume</Text>
+                  <TimeSeriesChart
+                    variant="stacked-bar"
+                    data={trendSeries.volume}
+                    bucketMs={trendSeries.bucketMs}
+                    series={[{ key: 'requests', label: 'Requests', color: '#1890ff' }]}
+                  />
+                </Col>
+                <Col span={24} xl={12}>
+                  <Text strong>Success / Failure</Text>
+                  <TimeSeriesChart
+                    variant="stacked-bar"
+                    data={trendSeries.outcomes}
+                    bucketMs={trendSeries.bucketMs}
+                    series={[
+                      { key: 'successful', label: 'Successful', color: '#52c41a' },
+                      { key: 'failed', label: 'Failed', color: '#f5222d' },
+                    ]}
+                  />
+                </Col>
+                <Col span={24}>
+                  <Text strong>Average Response Time</Text>
+                  <TimeSeriesChart
+                    variant="line"
+                    data={trendSeries.latency}
+                    bucketMs={trendSeries.bucketMs}
+                    series={[
+                      { key: 'avgResponseTime', label: 'Avg response time', color: '#722ed1' },
+                    ]}
+                    formatValue={(value) => `${value.toFixed(0)}ms`}
+                  />
+                </Col>
+              </Row>
+            </Card>
+
+            <Card
+              title={
+                <Space>
+                  <PartitionOutlined />
+                  <span>Service Breakdown</span>
+                </Space>
+              }
+              bordered={false}
+              style={{ marginTop: 16 }}
+            >
+              <ServiceStatsTable
+                methods={stats.methods}
+                loading={loading && !stats.methods}
+                thresholds={thresholds}
+              />
+            </Card>
           </TabPane>
 
           <TabPane
@@ -551,31 +615,6 @@ const Stats: React.FC = () => {
           </TabPane>
         </Tabs>
       </Spin>
-
-      <Divider />
-
-      <Alert
-        message="Performance Metrics"
-        description={
-          <div>
-            <Paragraph>
-              In a production environment, this page would include detailed charts showing:
-            </Paragraph>
-            <ul>
-              <li>Request volume over time</li>
-              <li>Success/error rates by time period</li>
-              <li>Response time distribution</li>
-              <li>Performance metrics by service and method</li>
-              <li>Resource utilization (CPU, memory, network)</li>
-            </ul>
-            <Paragraph>
-              These metrics would help identify performance bottlenecks and troubleshoot issues.
-            </Paragraph>
-          </div>
-        }
-        type="info"
-        showIcon
-      />
     </div>
   );
 };
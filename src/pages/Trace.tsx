@@ -0,0 +1,294 @@
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Typography,
+  Button,
+  Card,
+  Descriptions,
+  Space,
+  Tag,
+  Alert,
+  Tooltip,
+  Empty,
+  Spin,
+  Timeline,
+} from 'antd';
+import { ArrowLeftOutlined, ReloadOutlined, ApartmentOutlined } from '@ant-design/icons';
+import { format } from 'date-fns';
+import { LogEntry, LogLevel } from '../types/api';
+import ApiService, { isRequestCanceled } from '../services/api';
+import socketService from '../services/socket';
+import { buildTrace, TraceSpan } from '../utils/trace';
+
+const { Title, Text, Paragraph } = Typography;
+
+// Maximum number of entries fetched for a single trace
+const TRACE_LOG_LIMIT = 1000;
+
+// Log level colors for waterfall markers and timeline dots
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  error: '#ff4d4f',
+  warn: '#faad14',
+  info: '#1677ff',
+  debug: '#722ed1',
+  verbose: '#8c8c8c',
+};
+
+/**
+ * Format a trace offset in milliseconds for display
+ */
+const formatOffset = (ms: number): string =>
+  ms >= 1000 ? `+${(ms / 1000).toFixed(2)}s` : `+${ms}ms`;
+
+/**
+ * Trace component showing every log entry recorded under a single traceId
+ */
+const Trace: React.FC = () => {
+  const { traceId = '' } = useParams<{ traceId: string }>();
+  const navigate = useNavigate();
+
+  // State management
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch all log entries for the trace
+  const fetchTrace = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await ApiService.getLogs({ traceId, limit: TRACE_LOG_LIMIT, signal });
+        // Guard against servers that ignore the traceId filter
+        setLogs(data.filter((log) => log.traceId === traceId));
+      } catch (error) {
+        if (isRequestCanceled(error)) return;
+        console.error('Error fetching trace:', error);
+        setError('Failed to fetch trace logs. Please try again.');
+      } finally {
+        if (!signal?.aborted) setLoading(false);
+      }
+    },
+    [traceId],
+  );
+
+  // Append live log entries belonging to this trace
+  const handleLogUpdate = useCallback(
+    (log: LogEntry) => {
+      if (log.traceId !== traceId) return;
+      setLogs((prev) => (prev.some((entry) => entry.id === log.id) ? prev : [...prev, log]));
+    },
+    [traceId],
+  );
+
+  // Fetch data and listen for new entries
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchTrace(controller.signal);
+    const unsubscribeLog = socketService.on('log', handleLogUpdate);
+    const subscriptionId = socketService.subscribe('logs', { traceId });
+
+    return () => {
+      unsubscribeLog();
+      socketService.unsubscribe(subscriptionId);
+      controller.abort();
+    };
+  }, [fetchTrace, handleLogUpdate, traceId]);
+
+  const trace = useMemo(() => buildTrace(logs), [logs]);
+
+  // Render a span label with its service and method
+  const renderSpanLabel = (span: TraceSpan) => (
+    <Space size={4} wrap>
+      <Tag color="blue">{span.service ?? span.entries[0].context}</Tag>
+      {span.method && <Tag color="geekblue">{span.method}</Tag>}
+    </Space>
+  );
+
+  // Render a span's bar and entry markers positioned on the trace duration
+  const renderSpanTrack = (span: TraceSpan) => {
+    const scale = (ms: number) => (trace.durationMs > 0 ? (ms / trace.durationMs) * 100 : 0);
+    const left = scale(span.startMs);
+    const width = scale(span.endMs - span.startMs);
+
+    return (
+      <div style={{ position: 'relative', height: 24, background: 'rgba(0, 0, 0, 0.02)' }}>
+        <div
+          style={{
+            position: 'absolute',
+            top: 8,
+            left: `${left}%`,
+            width: `${width}%`,
+            minWidth: 2,
+            height: 8,
+            borderRadius: 4,
+            background: span.hasError ? '#ffccc7' : '#bae0ff',
+          }}
+        />
+        {span.entries.map((entry) => (
+          <Tooltip
+            key={entry.id}
+            title={
+              <>
+                <div>
+                  {formatOffset(entry.offsetMs)} · {entry.level.toUpperCase()}
+                </div>
+                <div>{entry.message}</div>
+              </>
+            }
+          >
+            <div
+              style={{
+                position: 'absolute',
+                top: 6,
+                left: `calc(${scale(entry.offsetMs)}% - 6px)`,
+                width: 12,
+                height: 12,
+                borderRadius: '50%',
+                border: '2px solid #fff',
+                background: LEVEL_COLORS[entry.level],
+              }}
+            />
+          </Tooltip>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="trace-container">
+      <div className="table-header-actions">
+        <Space align="center">
+          <Button type="text" icon={<ArrowLeftOutlined />} onClick={() => navigate(-1)} />
+          <Title level={4} style={{ margin: 0 }}>
+            <ApartmentOutlined /> Trace
+          </Title>
+        </Space>
+        <Button
+          type="primary"
+          icon={<ReloadOutlined />}
+          onClick={() => fetchTrace()}
+          loading={loading}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert
+          message="Error"
+          description={error}
+          type="error"
+          showIcon
+          closable
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
+      <Spin spinning={loading} tip="Loading trace...">
+        <Card bordered={false} style={{ marginBottom: 16 }}>
+          <Descriptions bordered column={{ xs: 1, sm: 2, lg: 3 }} size="small">
+            <Descriptions.Item label="Trace ID" span={3}>
+              <Paragraph copyable style={{ marginBottom: 0 }}>
+                {traceId}
+              </Paragraph>
+            </Descriptions.Item>
+            <Descriptions.Item label="Started">
+              {trace.startTime
+                ? format(new Date(trace.startTime), 'MMM dd, yyyy HH:mm:ss.SSS')
+                : '-'}
+            </Descriptions.Item>
+            <Descriptions.Item label="Duration">{trace.durationMs}ms</Descriptions.Item>
+            <Descriptions.Item label="Entries">
+              <Space>
+                {trace.entries.length}
+                {trace.errorCount > 0 && <Tag color="red">{trace.errorCount} errors</Tag>}
+              </Space>
+            </Descriptions.Item>
+            <Descriptions.Item label="Services" span={3}>
+              {trace.services.length > 0 ? (
+                trace.services.map((service) => (
+                  <Tag color="blue" key={service}>
+                    {service}
+                  </Tag>
+                ))
+              ) : (
+                <Text type="secondary">None</Text>
+              )}
+            </Descriptions.Item>
+          </Descriptions>
+        </Card>
+
+        {trace.entries.length === 0 ? (
+          <Card bordered={false}>
+            <Empty
+              image={Empty.PRESENTED_IMAGE_SIMPLE}
+              description={loading ? 'Loading...' : 'No log entries found for this trace'}
+            />
+          </Card>
+        ) : (
+          <>
+            <Card title="Waterfall" bordered={false} style={{ marginBottom: 16 }}>
+              <div style={{ display: 'flex', marginBottom: 8 }}>
+                <div style={{ width: 260, flexShrink: 0 }} />
+                <div style={{ flex: 1, display: 'flex', justifyContent: 'space-between' }}>
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    0ms
+                  </Text>
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    {formatOffset(trace.durationMs)}
+                  </Text>
+                </div>
+              </div>
+              {trace.spans.map((span) => (
+                <div
+                  key={span.key}
+                  style={{ display: 'flex', alignItems: 'center', padding: '4px 0' }}
+                >
+                  <div style={{ width: 260, flexShrink: 0, paddingRight: 12 }}>
+                    {renderSpanLabel(span)}
+                    <Text type="secondary" style={{ fontSize: 12 }}>
+                      {span.entries.length} entr{span.entries.length !== 1 ? 'ies' : 'y'} ·{' '}
+                      {span.endMs - span.startMs}ms
+                    </Text>
+                  </div>
+                  <div style={{ flex: 1 }}>{renderSpanTrack(span)}</div>
+                </div>
+              ))}
+            </Card>
+
+            <Card title="Timeline" bordered={false}>
+              <Timeline
+                items={trace.entries.map((entry) => ({
+                  key: entry.id,
+                  color: LEVEL_COLORS[entry.level],
+                  children: (
+                    <>
+                      <Space size={4} wrap>
+                        <Text code>{formatOffset(entry.offsetMs)}</Text>
+                        <Tag color={entry.level === 'error' ? 'red' : 'default'}>
+                          {entry.level.toUpperCase()}
+                        </Tag>
+                        {entry.service && <Tag color="blue">{entry.service}</Tag>}
+                        {entry.method && <Tag color="geekblue">{entry.method}</Tag>}
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          {format(new Date(entry.timestamp), 'HH:mm:ss.SSS')}
+                        </Text>
+                      </Space>
+                      <div style={{ wordBreak: 'break-word', marginTop: 4 }}>{entry.message}</div>
+                      <Text type="secondary" style={{ fontSize: 12 }}>
+                        {entry.context}
+                      </Text>
+                    </>
+                  ),
+                }))}
+              />
+            </Card>
+          </>
+        )}
+      </Spin>
+    </div>
+  );
+};
+
+export default Trace;
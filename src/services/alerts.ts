@@ -0,0 +1,390 @@
+import { notification } from 'antd';
+import { GrpcConnection, GrpcServiceInfo, LogEntry, StatsData } from '../types/api';
+import {
+  AlertEvent,
+  AlertRule,
+  AlertRuleType,
+  compare,
+  getInactiveServices,
+  getStatsMetric,
+  matchesLogRule,
+  STATS_METRICS,
+} from '../utils/alerts';
+import environmentService from './environments';
+import socketService from './socket';
+
+const RULES_STORAGE_KEY = 'grpcDashboardAlertRules';
+const HISTORY_STORAGE_KEY = 'grpcDashboardAlertHistory';
+
+const MAX_HISTORY_ENTRIES = 200;
+
+// Duration conditions and log windows must be re-checked even when no events arrive
+const EVALUATION_INTERVAL = 5 * 1000;
+
+export interface AlertState {
+  rules: AlertRule[];
+  history: AlertEvent[];
+  unreadCount: number;
+}
+
+type AlertListener = (state: AlertState) => void;
+
+interface RuleState {
+  // Time (epoch ms) the condition started holding, null while it does not
+  pendingSince: number | null;
+  firingEventId: string | null;
+  // Log entry times (epoch ms) counted by log rate rules
+  logTimes: number[];
+}
+
+interface Evaluation {
+  active: boolean;
+  message: string;
+}
+
+const createId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Evaluates user-defined alert rules against live socket events and keeps a fired alert history
+ */
+class AlertService {
+  private rules: AlertRule[] = [];
+  private history: AlertEvent[] = [];
+  private unreadCount: number = 0;
+  private ruleStates: Map<string, RuleState> = new Map();
+  private listeners: AlertListener[] = [];
+  private unsubscribers: (() => void)[] = [];
+  private intervalId: number | undefined;
+  // Socket topics needed by the enabled rules
+  private subscriptionIds: string[] = [];
+
+  // Latest data received over the WebSocket
+  private stats: StatsData | null = null;
+  private services: GrpcServiceInfo[] | null = null;
+  private connections: Map<string, GrpcConnection> | null = null;
+  private environmentId: string = environmentService.getActive().id;
+
+  constructor() {
+    this.rules = this.load<AlertRule>(RULES_STORAGE_KEY);
+    // Firing state is not restored across reloads; rules re-fire if their condition still holds
+    this.history = this.load<AlertEvent>(HISTORY_STORAGE_KEY).map((event) =>
+      event.resolvedAt ? event : { ...event, resolvedAt: event.firedAt },
+    );
+  }
+
+  /**
+   * Start evaluating rules against socket events
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers = [
+      socketService.on('stats', (stats) => {
+        this.stats = stats;
+        this.evaluate('stats');
+      }),
+      socketService.on('services', (services) => {
+        this.services = services;
+        this.evaluate('service');
+      }),
+      socketService.on('connections', (connections) => {
+        this.connections = new Map(connections.map((c) => [c.id, c]));
+        this.evaluate('connections');
+      }),
+      socketService.on('connection', (connection) => {
+        this.connections = new Map(this.connections ?? []).set(connection.id, connection);
+        this.evaluate('connections');
+      }),
+      socketService.on('log', (log) => this.recordLog(log)),
+      environmentService.subscribe((active) => {
+        if (active.id === this.environmentId) return;
+        this.environmentId = active.id;
+        this.resetData();
+      }),
+    ];
+    this.syncSubscriptions();
+    this.intervalId = window.setInterval(() => this.evaluate(), EVALUATION_INTERVAL);
+  }
+
+  /**
+   * Stop evaluating rules
+   */
+  stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.syncSubscriptions();
+    if (this.intervalId) clearInterval(this.intervalId);
+    this.intervalId = undefined;
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  getHistory(): AlertEvent[] {
+    return this.history;
+  }
+
+  getState(): AlertState {
+    return { rules: this.rules, history: this.history, unreadCount: this.unreadCount };
+  }
+
+  /**
+   * Replace the rule set, resolving alerts of rules that were removed, disabled or edited
+   *
+   * @param rules - The new rules
+   */
+  saveRules(rules: AlertRule[]): void {
+    const previous = new Map(this.rules.map((rule) => [rule.id, rule]));
+    this.rules = rules;
+
+    for (const rule of rules) {
+      const old = previous.get(rule.id);
+      if (old && JSON.stringify(old) !== JSON.stringify(rule)) this.resetRule(rule.id);
+      previous.delete(rule.id);
+    }
+    previous.forEach((_, id) => this.resetRule(id));
+
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+    this.syncSubscriptions();
+    this.evaluate();
+    this.notify();
+  }
+
+  /**
+   * Mark all fired alerts as seen
+   */
+  markAllRead(): void {
+    if (this.unreadCount === 0) return;
+    this.unreadCount = 0;
+    this.notify();
+  }
+
+  /**
+   * Remove all alert history; rules keep their firing state, so a condition that still holds is
+   * not announced again
+   */
+  clearHistory(): void {
+    this.history = [];
+    this.unreadCount = 0;
+    localStorage.removeItem(HISTORY_STORAGE_KEY);
+    this.notify();
+  }
+
+  /**
+   * Subscribe to rule and history changes
+   *
+   * @param listener - Called with the current state whenever it changes
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: AlertListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Subscribe to the socket topics the enabled rules evaluate, or none once stopped
+   */
+  private syncSubscriptions(): void {
+    this.subscriptionIds.forEach((id) => socketService.unsubscribe(id));
+    this.subscriptionIds = [];
+    if (this.unsubscribers.length === 0) return;
+
+    const enabled = this.rules.filter((rule) => rule.enabled);
+    const types = new Set(enabled.map((rule) => rule.type));
+    if (types.has('stats')) this.subscriptionIds.push(socketService.subscribe('stats'));
+    if (types.has('service')) this.subscriptionIds.push(socketService.subscribe('services'));
+    if (types.has('connections')) {
+      this.subscriptionIds.push(socketService.subscribe('connections'));
+    }
+    enabled.forEach((rule) => {
+      // Context may match either the log's context or its service, so only the level is sent
+      if (rule.type === 'logRate') {
+        this.subscriptionIds.push(socketService.subscribe('logs', { levels: [rule.level] }));
+      }
+    });
+  }
+
+  /**
+   * Forget data received from the previous environment, resolving alerts that depended on it
+   */
+  private resetData(): void {
+    this.stats = null;
+    this.services = null;
+    this.connections = null;
+    this.ruleStates.forEach((state) => (state.logTimes = []));
+    this.evaluate();
+  }
+
+  private recordLog(log: LogEntry): void {
+    const time = new Date(log.timestamp).getTime() || Date.now();
+    this.rules.forEach((rule) => {
+      if (rule.enabled && rule.type === 'logRate' && matchesLogRule(rule, log)) {
+        this.getRuleState(rule.id).logTimes.push(time);
+      }
+    });
+    this.evaluate('logRate');
+  }
+
+  /**
+   * Evaluate enabled rules, optionally only those of one type
+   */
+  private evaluate(type?: AlertRuleType): void {
+    const now = Date.now();
+
+    for (const rule of this.rules) {
+      if (!rule.enabled || (type && rule.type !== type)) continue;
+
+      const state = this.getRuleState(rule.id);
+      const { active, message } = this.evaluateRule(rule, state, now);
+      const holdMs = rule.type === 'logRate' ? 0 : rule.forMinutes * 60 * 1000;
+
+      if (!active) {
+        state.pendingSince = null;
+        if (state.firingEventId) this.resolve(rule, state);
+        continue;
+      }
+
+      state.pendingSince ??= now;
+      if (!state.firingEventId && now - state.pendingSince >= holdMs) {
+        this.fire(rule, state, message);
+      }
+    }
+  }
+
+  private evaluateRule(rule: AlertRule, state: RuleState, now: number): Evaluation {
+    switch (rule.type) {
+      case 'stats': {
+        const value = this.stats ? getStatsMetric(this.stats, rule.metric) : null;
+        const { label, unit } = STATS_METRICS[rule.metric];
+        return {
+          active: value !== null && compare(value, rule.operator, rule.threshold),
+          message: `${label} is ${value?.toFixed(1)}${unit} (threshold ${rule.operator} ${rule.threshold}${unit})`,
+        };
+      }
+      case 'service': {
+        const inactive = this.services ? getInactiveServices(rule, this.services) : [];
+        return {
+          active: inactive.length > 0,
+          message: `Inactive: ${inactive.join(', ')}`,
+        };
+      }
+      case 'connections': {
+        if (!this.connections) return { active: false, message: '' };
+        const count = Array.from(this.connections.values()).filter(
+          (connection) => connection.status === rule.status,
+        ).length;
+        return {
+          active: compare(count, rule.operator, rule.threshold),
+          message: `${count} ${rule.status} connections (threshold ${rule.operator} ${rule.threshold})`,
+        };
+      }
+      case 'logRate': {
+        const cutoff = now - rule.windowMinutes * 60 * 1000;
+        state.logTimes = state.logTimes.filter((time) => time >= cutoff);
+        return {
+          active: state.logTimes.length > rule.threshold,
+          message: `${state.logTimes.length} ${rule.level} logs${
+            rule.context ? ` from ${rule.context}` : ''
+          } in the last ${rule.windowMinutes} min`,
+        };
+      }
+    }
+  }
+
+  private fire(rule: AlertRule, state: RuleState, message: string): void {
+    const event: AlertEvent = {
+      id: createId(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      message,
+      firedAt: new Date().toISOString(),
+    };
+
+    state.firingEventId = event.id;
+    this.history = [event, ...this.history].slice(0, MAX_HISTORY_ENTRIES);
+    this.unreadCount++;
+    this.persistHistory();
+    this.notify();
+
+    notification[rule.severity]({
+      message: `Alert: ${rule.name}`,
+      description: message,
+      duration: rule.severity === 'error' ? 0 : 8,
+    });
+  }
+
+  private resolve(rule: AlertRule, state: RuleState): void {
+    this.closeEvent(state.firingEventId);
+    state.firingEventId = null;
+    this.notify();
+
+    notification.success({
+      message: `Resolved: ${rule.name}`,
+      duration: 4,
+    });
+  }
+
+  private resetRule(ruleId: string): void {
+    const state = this.ruleStates.get(ruleId);
+    if (state?.firingEventId) this.closeEvent(state.firingEventId);
+    this.ruleStates.delete(ruleId);
+  }
+
+  private closeEvent(eventId: string | null): void {
+    const resolvedAt = new Date().toISOString();
+    this.history = this.history.map((event) =>
+      event.id === eventId ? { ...event, resolvedAt } : event,
+    );
+    this.persistHistory();
+  }
+
+  private getRuleState(ruleId: string): RuleState {
+    let state = this.ruleStates.get(ruleId);
+    if (!state) {
+      state = { pendingSince: null, firingEventId: null, logTimes: [] };
+      this.ruleStates.set(ruleId, state);
+    }
+    return state;
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Error in alert listener:', error);
+      }
+    });
+  }
+
+  private load<T>(key: string): T[] {
+    const saved = localStorage.getItem(key);
+    if (!saved) return [];
+
+    try {
+      const parsed = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error(`Failed to parse ${key}:`, error);
+      return [];
+    }
+  }
+
+  private persistHistory(): void {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(this.history));
+    } catch (error) {
+      console.error('Failed to persist alert history:', error);
+    }
+  }
+}
+
+// Create a singleton instance
+const alertService = new AlertService();
+
+export default alertService;
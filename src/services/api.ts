@@ -1,18 +1,70 @@
-import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
 import { notification } from 'antd';
-import { GrpcServiceInfo, GrpcConnection, LogEntry, StatsData, SystemInfo } from '../types/api';
+import {
+  AuditEntry,
+  AuthTokens,
+  ConnectionActionRequest,
+  CurrentUser,
+  GrpcServiceInfo,
+  GrpcConnection,
+  InvokeMethodRequest,
+  InvokeMethodResponse,
+  LogEntry,
+  LoginRequest,
+  MethodStats,
+  ServiceSchema,
+  ServingStateRequest,
+  StatsData,
+  SystemInfo,
+} from '../types/api';
 
-const API_PREFIX = '/grpc-dashboard/api';
+export const API_PREFIX = '/grpc-dashboard/api';
+
+/**
+ * Whether a request failed because it was aborted rather than because of the server
+ */
+export const isRequestCanceled = (error: unknown): boolean => axios.isCancel(error);
 
 // Request timeout (15 seconds)
 const REQUEST_TIMEOUT = 15000;
 
+// Auth endpoints never carry the session token or trigger a refresh
+const AUTH_PATH_PREFIX = '/auth/';
+
+/**
+ * Supplies credentials to the API client and recovers from 401 responses
+ */
+export interface AuthProvider {
+  getToken(): string | null;
+  // Resolves to true when a new access token was obtained
+  refresh(): Promise<boolean>;
+  onUnauthorized(): void;
+}
+
+// `sessionAuth` marks requests carrying the session token, as opposed to a static environment token
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  authRetried?: boolean;
+  sessionAuth?: boolean;
+  skipErrorNotification?: boolean;
+};
+
+// Callers that report failures themselves set `skipErrorNotification`
+type ApiRequestConfig = AxiosRequestConfig & { skipErrorNotification?: boolean };
+
 /**
  * Enhanced API client with interceptors and error handling
  */
 class ApiClient {
   private client: AxiosInstance;
   private abortControllers: Map<string, AbortController> = new Map();
+  private extraHeaders: Record<string, string> = {};
+  private authProvider: AuthProvider | null = null;
 
   constructor(baseURL: string) {
     this.client = axios.create({
@@ -30,18 +82,29 @@ class ApiClient {
   private setupInterceptors(): void {
     // Request interceptor
     this.client.interceptors.request.use(
-      (config) => {
-        // Create abort controller for this request
+      (config: RetriableRequestConfig) => {
+        // Create abort controller for this request, following the caller's signal if it passed one
         const controller = new AbortController();
         const requestId = `${config.method}-${config.url}-${Date.now()}`;
+        if (config.signal?.aborted) {
+          controller.abort();
+        } else {
+          config.signal?.addEventListener?.('abort', () => controller.abort());
+        }
         config.signal = controller.signal;
         this.abortControllers.set(requestId, controller);
 
-        // Add request ID to request for tracking
-        config.headers = {
-          ...config.headers,
-          'X-Request-ID': requestId,
-        };
+        // Add environment headers and a request ID for tracking
+        Object.entries(this.extraHeaders).forEach(([name, value]) => {
+          config.headers.set(name, value);
+        });
+        config.headers.set('X-Request-ID', requestId);
+
+        const token = this.authProvider?.getToken();
+        if (token && !config.url?.startsWith(AUTH_PATH_PREFIX)) {
+          config.headers.set('Authorization', `Bearer ${token}`);
+          config.sessionAuth = true;
+        }
 
         return config;
       },
@@ -61,13 +124,37 @@ class ApiClient {
 
         return response;
       },
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
         // Clean up abort controller
         const requestId = error.config?.headers?.['X-Request-ID'] as string;
         if (requestId) {
           this.abortControllers.delete(requestId);
         }
 
+        // Requests cancelled on purpose are not failures worth reporting
+        if (error.code === AxiosError.ERR_CANCELED) {
+          return Promise.reject(error);
+        }
+
+        // Refresh an expired session once and retry, or hand over to the auth provider; other
+        // 401s, e.g. a rejected static token, are reported below
+        const config = error.config as RetriableRequestConfig | undefined;
+        const provider = this.authProvider;
+        if (error.response?.status === 401 && provider && config?.sessionAuth) {
+          if (!config.authRetried && provider.getToken() && (await provider.refresh())) {
+            config.authRetried = true;
+            return this.client.request(config);
+          }
+          // Other requests of the same burst end up here after the session is cleared; the
+          // provider reports the expiry once, so skip the generic authentication error
+          provider.onUnauthorized();
+          return Promise.reject(error);
+        }
+
+        if (config?.skipErrorNotification) {
+          return Promise.reject(error);
+        }
+
         // Handle specific error types
         if (error.response) {
           // Server responded with non-2xx status
@@ -109,6 +196,25 @@ class ApiClient {
     );
   }
 
+  /**
+   * Point the client at a different backend
+   *
+   * @param baseURL - Base URL for all requests
+   * @param headers - Headers added to every request, replacing any set previously
+   */
+  public configure(baseURL: string, headers: Record<string, string> = {}): void {
+    this.abortAllRequests();
+    this.client.defaults.baseURL = baseURL;
+    this.extraHeaders = headers;
+  }
+
+  /**
+   * Set the provider that supplies session tokens and handles expired sessions
+   */
+  public setAuthProvider(provider: AuthProvider | null): void {
+    this.authProvider = provider;
+  }
+
   /**
    * Abort all pending requests
    */
@@ -122,7 +228,7 @@ class ApiClient {
   /**
    * Make a GET request
    */
-  public async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  public async get<T>(url: string, config?: ApiRequestConfig): Promise<T> {
     try {
       const response: AxiosResponse<T> = await this.client.get<T>(url, config);
       return response.data;
@@ -134,7 +240,7 @@ class ApiClient {
   /**
    * Make a POST request
    */
-  public async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  public async post<T>(url: string, data?: any, config?: ApiRequestConfig): Promise<T> {
     try {
       const response: AxiosResponse<T> = await this.client.post<T>(url, data, config);
       return response.data;
@@ -146,7 +252,7 @@ class ApiClient {
   /**
    * Make a PUT request
    */
-  public async put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  public async put<T>(url: string, data?: any, config?: ApiRequestConfig): Promise<T> {
     try {
       const response: AxiosResponse<T> = await this.client.put<T>(url, data, config);
       return response.data;
@@ -158,7 +264,7 @@ class ApiClient {
   /**
    * Make a DELETE request
    */
-  public async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  public async delete<T>(url: string, config?: ApiRequestConfig): Promise<T> {
     try {
       const response: AxiosResponse<T> = await this.client.delete<T>(url, config);
       return response.data;
@@ -175,13 +281,74 @@ const apiClient = new ApiClient(API_PREFIX);
  * Service for making API requests to the gRPC Dashboard backend
  */
 export const ApiService = {
+  // Auth
+  async login(credentials: LoginRequest): Promise<AuthTokens> {
+    return apiClient.post<AuthTokens>('/auth/login', credentials);
+  },
+
+  async refreshToken(refreshToken: string): Promise<AuthTokens> {
+    return apiClient.post<AuthTokens>('/auth/refresh', { refreshToken });
+  },
+
+  async logout(refreshToken?: string): Promise<void> {
+    return apiClient.post<void>('/auth/logout', { refreshToken });
+  },
+
+  // Resolves to null when the backend does not implement `/me`
+  async getMe(): Promise<CurrentUser | null> {
+    const data = await apiClient.get<CurrentUser | null>('/me', {
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+    });
+    return data && Array.isArray(data.roles) ? data : null;
+  },
+
   // Services
   async getServices(): Promise<GrpcServiceInfo[]> {
     return apiClient.get<GrpcServiceInfo[]>('/services');
   },
 
-  async getServiceById(id: string): Promise<GrpcServiceInfo> {
-    return apiClient.get<GrpcServiceInfo>(`/services/${id}`);
+  // Null when there is no such service
+  async getServiceById(id: string): Promise<GrpcServiceInfo | null> {
+    const data = await apiClient.get<GrpcServiceInfo | null>(
+      `/services/${encodeURIComponent(id)}`,
+      {
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+      },
+    );
+    // A 404 body is an error object rather than a service
+    return data && typeof data.id === 'string' ? data : null;
+  },
+
+  async getServiceSchema(id: string): Promise<ServiceSchema> {
+    return apiClient.get<ServiceSchema>(`/services/${encodeURIComponent(id)}/schema`);
+  },
+
+  // Stop or resume serving a whole service
+  async setServiceEnabled(id: string, request: ServingStateRequest): Promise<GrpcServiceInfo> {
+    return apiClient.put<GrpcServiceInfo>(`/services/${encodeURIComponent(id)}/state`, request);
+  },
+
+  // Stop or resume serving a single method
+  async setMethodEnabled(
+    id: string,
+    method: string,
+    request: ServingStateRequest,
+  ): Promise<GrpcServiceInfo> {
+    return apiClient.put<GrpcServiceInfo>(
+      `/services/${encodeURIComponent(id)}/methods/${encodeURIComponent(method)}/state`,
+      request,
+    );
+  },
+
+  async invokeMethod(
+    serviceId: string,
+    method: string,
+    request: InvokeMethodRequest,
+  ): Promise<InvokeMethodResponse> {
+    return apiClient.post<InvokeMethodResponse>(
+      `/services/${encodeURIComponent(serviceId)}/methods/${encodeURIComponent(method)}/invoke`,
+      request,
+    );
   },
 
   // Connections
@@ -189,11 +356,48 @@ export const ApiService = {
     return apiClient.get<GrpcConnection[]>('/connections');
   },
 
+  // Failures are shown in the confirmation dialog rather than as a notification
+  async disconnectConnection(
+    id: string,
+    request: ConnectionActionRequest = {},
+  ): Promise<GrpcConnection> {
+    return apiClient.post<GrpcConnection>(
+      `/connections/${encodeURIComponent(id)}/disconnect`,
+      request,
+      { skipErrorNotification: true },
+    );
+  },
+
+  async drainConnection(
+    id: string,
+    request: ConnectionActionRequest = {},
+  ): Promise<GrpcConnection> {
+    return apiClient.post<GrpcConnection>(`/connections/${encodeURIComponent(id)}/drain`, request, {
+      skipErrorNotification: true,
+    });
+  },
+
+  // Audit entries recorded by the backend, optionally for one target; null when it keeps none
+  async getAuditLog(target?: string): Promise<AuditEntry[] | null> {
+    const data = await apiClient.get<AuditEntry[] | null>('/audit', {
+      params: { target },
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+    });
+    return Array.isArray(data) ? data : null;
+  },
+
   // Logs
   async getLogs(options?: {
     levels?: string[];
-    service?: string;
+    service?: string | undefined;
+    traceId?: string;
     limit?: number;
+    before?: string; // cursor: only entries older than this log id or ISO timestamp
+    after?: string; // cursor: only entries newer than this log id or ISO timestamp
+    query?: string | undefined; // log query, for backends that filter server-side
+    from?: string; // ISO timestamp, inclusive
+    to?: string; // ISO timestamp, inclusive
+    signal?: AbortSignal | undefined; // cancels the request, e.g. when the page that made it unmounts
   }): Promise<LogEntry[]> {
     const params = new URLSearchParams();
 
@@ -205,16 +409,63 @@ export const ApiService = {
       params.append('service', options.service);
     }
 
+    if (options?.traceId) {
+      params.append('traceId', options.traceId);
+    }
+
     if (options?.limit) {
       params.append('limit', options.limit.toString());
     }
 
-    return apiClient.get<LogEntry[]>('/logs', { params });
+    if (options?.before) {
+      params.append('before', options.before);
+    }
+
+    if (options?.after) {
+      params.append('after', options.after);
+    }
+
+    if (options?.query) {
+      params.append('q', options.query);
+    }
+
+    if (options?.from) {
+      params.append('from', options.from);
+    }
+
+    if (options?.to) {
+      params.append('to', options.to);
+    }
+
+    return apiClient.get<LogEntry[]>(
+      '/logs',
+      options?.signal ? { params, signal: options.signal } : { params },
+    );
   },
 
   // Stats
-  async getStats(): Promise<StatsData> {
-    return apiClient.get<StatsData>('/stats');
+  async getStats(options?: { includeMethods?: boolean }): Promise<StatsData> {
+    const params = new URLSearchParams();
+
+    if (options?.includeMethods) {
+      params.append('include', 'methods');
+    }
+
+    return apiClient.get<StatsData>('/stats', { params });
+  },
+
+  // Resolves to null when the backend does not implement per-service stats
+  async getServiceStats(serviceName: string): Promise<Record<string, MethodStats> | null> {
+    const data = await apiClient.get<Record<string, MethodStats> | null>(
+      `/stats/services/${encodeURIComponent(serviceName)}`,
+      { validateStatus: (status) => (status >= 200 && status < 300) || status === 404 },
+    );
+    // A 404 body is an error object rather than stats keyed by method
+    const isStats =
+      data &&
+      typeof data === 'object' &&
+      Object.values(data).every((stats) => typeof stats?.totalRequests === 'number');
+    return isStats ? data : null;
   },
 
   // System Info
@@ -226,6 +477,16 @@ export const ApiService = {
   abortAllRequests(): void {
     apiClient.abortAllRequests();
   },
+
+  // Switch the backend requests are sent to (see services/environments)
+  configure(baseURL: string, headers?: Record<string, string>): void {
+    apiClient.configure(baseURL, headers);
+  },
+
+  // Register the session handler (see services/auth)
+  setAuthProvider(provider: AuthProvider | null): void {
+    apiClient.setAuthProvider(provider);
+  },
 };
 
 export default ApiService;
@@ -0,0 +1,208 @@
+import { notification } from 'antd';
+import { AuthTokens, AuthUser } from '../types/api';
+import ApiService, { AuthProvider } from './api';
+import socketService from './socket';
+
+const STORAGE_KEY = 'grpcDashboardAuthSessions';
+
+/**
+ * A signed-in session for one backend environment
+ */
+export interface AuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number; // epoch ms
+  user?: AuthUser;
+}
+
+type AuthListener = (session: AuthSession | null) => void;
+
+/**
+ * Holds login sessions per environment, attaches them to requests and refreshes them on 401
+ */
+class AuthService implements AuthProvider {
+  private sessions: Record<string, AuthSession> = {};
+  private scope: string = '';
+  private refreshing: Promise<boolean> | null = null;
+  private listeners: AuthListener[] = [];
+
+  constructor() {
+    this.load();
+    ApiService.setAuthProvider(this);
+
+    // Servers reject the handshake when the token has expired; refresh so the next attempt succeeds
+    socketService.on('connect_error', (error) => {
+      if (/unauthori[sz]ed/i.test(error.message) && this.getSession()) {
+        this.refresh().then((refreshed) => {
+          if (!refreshed) this.onUnauthorized();
+        });
+      }
+    });
+  }
+
+  /**
+   * Switch to the session of another backend environment
+   *
+   * @param scope - Environment ID
+   */
+  setScope(scope: string): void {
+    this.scope = scope;
+  }
+
+  /**
+   * The current session, or null when signed out or expired beyond refresh
+   */
+  getSession(): AuthSession | null {
+    const session = this.sessions[this.scope];
+    if (!session) return null;
+    if (session.expiresAt && session.expiresAt < Date.now() && !session.refreshToken) return null;
+    return session;
+  }
+
+  isAuthenticated(): boolean {
+    return this.getSession() !== null;
+  }
+
+  getToken(): string | null {
+    return this.getSession()?.accessToken ?? null;
+  }
+
+  /**
+   * Socket.IO handshake auth payload for the current session
+   */
+  getSocketAuth(): Record<string, string> {
+    const token = this.getToken();
+    return token ? { token } : {};
+  }
+
+  /**
+   * Sign in with a username and password
+   *
+   * @param username - Username
+   * @param password - Password
+   */
+  async login(username: string, password: string): Promise<AuthSession> {
+    const tokens = await ApiService.login({ username, password });
+    const session = this.store(tokens);
+    this.notify();
+    return session;
+  }
+
+  /**
+   * Exchange the refresh token for a new access token, sharing one request between callers
+   *
+   * @returns True when a new access token was obtained
+   */
+  refresh(): Promise<boolean> {
+    const refreshToken = this.sessions[this.scope]?.refreshToken;
+    if (!refreshToken) return Promise.resolve(false);
+
+    this.refreshing ??= ApiService.refreshToken(refreshToken)
+      .then((tokens) => {
+        this.store(tokens);
+        return true;
+      })
+      .catch((error) => {
+        console.error('Failed to refresh session:', error);
+        return false;
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+
+    return this.refreshing;
+  }
+
+  /**
+   * Sign out locally and revoke the session on the server
+   */
+  async logout(): Promise<void> {
+    const session = this.sessions[this.scope];
+    this.clear();
+
+    try {
+      await ApiService.logout(session?.refreshToken);
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    }
+  }
+
+  /**
+   * Called by the API client when a 401 could not be recovered from
+   */
+  onUnauthorized(): void {
+    if (!this.sessions[this.scope]) return;
+    this.clear();
+
+    notification.warning({
+      message: 'Session Expired',
+      description: 'Please sign in again.',
+    });
+  }
+
+  /**
+   * Subscribe to sign-in and sign-out (token refreshes are not reported)
+   *
+   * @param listener - Called with the current session whenever it changes
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: AuthListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private store(tokens: AuthTokens): AuthSession {
+    const previous = this.sessions[this.scope];
+    const session: AuthSession = { accessToken: tokens.accessToken };
+
+    // Refresh responses may omit the refresh token and user when they do not rotate
+    const refreshToken = tokens.refreshToken ?? previous?.refreshToken;
+    const user = tokens.user ?? previous?.user;
+    if (refreshToken) session.refreshToken = refreshToken;
+    if (user) session.user = user;
+    if (tokens.expiresIn) session.expiresAt = Date.now() + tokens.expiresIn * 1000;
+
+    this.sessions[this.scope] = session;
+    this.persist();
+    return session;
+  }
+
+  private clear(): void {
+    delete this.sessions[this.scope];
+    this.persist();
+    this.notify();
+  }
+
+  private notify(): void {
+    const session = this.getSession();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(session);
+      } catch (error) {
+        console.error('Error in auth listener:', error);
+      }
+    });
+  }
+
+  private load(): void {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return;
+
+    try {
+      this.sessions = JSON.parse(saved);
+    } catch (error) {
+      console.error('Failed to parse saved sessions:', error);
+    }
+  }
+
+  private persist(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.sessions));
+  }
+}
+
+// Create a singleton instance
+const authService = new AuthService();
+
+export default authService;
@@ -0,0 +1,411 @@
+import { GrpcConnection, GrpcServiceInfo, LogEntry, StatsData, SystemInfo } from '../types/api';
+import { getSettings } from '../utils/settings';
+import ApiService from './api';
+import environmentService from './environments';
+import socketService from './socket';
+import statsHistory from './statsHistory';
+
+// Most recent log entries kept for overview widgets
+const RECENT_LOG_LIMIT = 100;
+
+// Data is considered stale once it is older than this many refresh intervals
+const STALE_INTERVALS = 3;
+
+// Lower bound on the stale threshold, also used when auto-refresh is off
+const MIN_STALE_AFTER = 30 * 1000;
+
+/**
+ * A slice of backend data with its cache metadata
+ */
+export interface Resource<T> {
+  data: T;
+  updatedAt: number | null; // epoch ms of the last REST response or socket update
+  loading: boolean;
+  error: string | null;
+}
+
+export interface DataState {
+  services: Resource<GrpcServiceInfo[]>;
+  connections: Resource<GrpcConnection[]>;
+  logs: Resource<LogEntry[]>; // newest first
+  stats: Resource<StatsData | null>;
+  systemInfo: Resource<SystemInfo | null>;
+  socketConnected: boolean;
+  refreshInterval: number; // ms, 0 when auto-refresh is off
+}
+
+export type ResourceKey = 'services' | 'connections' | 'logs' | 'stats' | 'systemInfo';
+
+type DataListener = (state: DataState) => void;
+
+const RESOURCE_KEYS: ResourceKey[] = ['services', 'connections', 'logs', 'stats', 'systemInfo'];
+
+// Messages shown when a REST refresh fails
+const ERROR_MESSAGES: Record<ResourceKey, string> = {
+  services: 'Failed to fetch services. Please try again.',
+  connections: 'Failed to fetch connections. Please try again.',
+  logs: 'Failed to fetch recent logs. Please try again.',
+  stats: 'Failed to fetch statistics data. Please try again.',
+  systemInfo: 'Failed to fetch system information. Please try again.',
+};
+
+const emptyResource = <T>(data: T): Resource<T> => ({
+  data,
+  updatedAt: null,
+  loading: false,
+  error: null,
+});
+
+const createInitialState = (): Omit<DataState, 'socketConnected' | 'refreshInterval'> => ({
+  services: emptyResource([]),
+  connections: emptyResource([]),
+  logs: emptyResource([]),
+  stats: emptyResource(null),
+  systemInfo: emptyResource(null),
+});
+
+/**
+ * Merge entries into a newest-first log list, skipping ones already present
+ */
+const mergeLogs = (current: LogEntry[], entries: LogEntry[]): LogEntry[] => {
+  const knownIds = new Set(current.map((log) => log.id));
+  const fresh = entries.filter((log) => !knownIds.has(log.id));
+  if (fresh.length === 0) return current;
+
+  return [...fresh, ...current]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .slice(0, RECENT_LOG_LIMIT);
+};
+
+/**
+ * Replace an item in a list by ID, appending it when it is new
+ */
+const upsertById = <T extends { id: string }>(items: T[], item: T): T[] => {
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index < 0) return [...items, item];
+
+  const next = [...items];
+  next[index] = item;
+  return next;
+};
+
+/**
+ * Single cache of backend data shared by all pages, loaded over REST and kept current by
+ * WebSocket updates and one auto-refresh timer
+ */
+class DataStore {
+  private state: DataState = {
+    ...createInitialState(),
+    socketConnected: socketService.isConnected(),
+    refreshInterval: 0,
+  };
+  private listeners: DataListener[] = [];
+  private unsubscribers: (() => void)[] = [];
+  private intervalId: number | undefined;
+  private environmentKey: string = '';
+  // Number of mounted consumers per resource; only retained resources are refreshed
+  private retainCount: Record<ResourceKey, number> = {
+    services: 0,
+    connections: 0,
+    logs: 0,
+    stats: 0,
+    systemInfo: 0,
+  };
+  // Responses to requests made before an environment switch are discarded
+  private generation: number = 0;
+  // Socket topic subscriptions held while a resource is retained
+  private subscriptionIds: Partial<Record<ResourceKey, string>> = {};
+
+  /**
+   * Listen for WebSocket updates and start the auto-refresh timer
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.environmentKey = JSON.stringify(environmentService.getActive());
+    this.unsubscribers = [
+      socketService.on('services', (services) => this.receive('services', services)),
+      socketService.on('connections', (connections) => this.receive('connections', connections)),
+      socketService.on('connection', (connection) =>
+        this.receive('connections', upsertById(this.state.connections.data, connection)),
+      ),
+      socketService.on('log', (log) =>
+        this.receive('logs', mergeLogs(this.state.logs.data, [log])),
+      ),
+      socketService.on('stats', (stats) => this.receiveStats(stats)),
+      socketService.on('connect', () => {
+        this.setState({ socketConnected: true });
+        this.requestRetained();
+      }),
+      socketService.on('disconnect', () => this.setState({ socketConnected: false })),
+      environmentService.subscribe((active) => {
+        const key = JSON.stringify(active);
+        if (key === this.environmentKey) return;
+        this.environmentKey = key;
+        this.reset();
+      }),
+    ];
+
+    this.setState({ socketConnected: socketService.isConnected() });
+    this.setRefreshInterval(getSettings().refreshInterval);
+  }
+
+  /**
+   * Stop listening for updates and refreshing
+   */
+  stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    window.clearInterval(this.intervalId);
+    this.intervalId = undefined;
+  }
+
+  getState(): DataState {
+    return this.state;
+  }
+
+  /**
+   * Register a consumer of a resource, loading it if it has never loaded or has gone stale
+   *
+   * @param key - Resource the consumer reads
+   * @returns Function to release the resource when the consumer unmounts
+   */
+  retain(key: ResourceKey): () => void {
+    this.retainCount[key]++;
+    if (this.retainCount[key] === 1) this.subscribeTopic(key);
+
+    const resource = this.state[key];
+    if (!resource.loading && (resource.updatedAt === null || this.isStale(key))) {
+      this.refresh(key);
+    }
+
+    return () => {
+      this.retainCount[key] = Math.max(0, this.retainCount[key] - 1);
+      if (this.retainCount[key] === 0) this.unsubscribeTopic(key);
+    };
+  }
+
+  /**
+   * Reload a resource over REST
+   *
+   * @param key - Resource to reload
+   */
+  async refresh(key: ResourceKey): Promise<void> {
+    const generation = this.generation;
+    this.updateResource(key, { loading: true, error: null });
+
+    try {
+      const data = await this.fetch(key);
+      if (generation !== this.generation) return;
+
+      this.receiveResponse(key, data);
+    } catch (error) {
+      if (generation !== this.generation) return;
+
+      console.error(`Error fetching ${key}:`, error);
+      this.updateResource(key, { loading: false, error: ERROR_MESSAGES[key] });
+    }
+  }
+
+  /**
+   * Whether a resource has gone without updates for longer than expected
+   *
+   * @param key - Resource to check
+   * @param now - Current time (defaults to now)
+   */
+  isStale(key: ResourceKey, now: number = Date.now()): boolean {
+    const { updatedAt } = this.state[key];
+    return updatedAt !== null && now - updatedAt > this.getStaleAfter();
+  }
+
+  /**
+   * Age in milliseconds after which data counts as stale
+   */
+  getStaleAfter(): number {
+    return Math.max(MIN_STALE_AFTER, this.state.refreshInterval * STALE_INTERVALS);
+  }
+
+  /**
+   * Change how often retained resources are refreshed
+   *
+   * @param seconds - Interval in seconds, or 0 to turn auto-refresh off
+   */
+  setRefreshInterval(seconds: number): void {
+    const refreshInterval = seconds > 0 ? seconds * 1000 : 0;
+    window.clearInterval(this.intervalId);
+    this.intervalId = refreshInterval
+      ? window.setInterval(() => this.requestRetained(), refreshInterval)
+      : undefined;
+    this.setState({ refreshInterval });
+  }
+
+  /**
+   * Apply a service returned by the backend after a change made from the UI
+   *
+   * @param service - Updated service
+   */
+  updateService(service: GrpcServiceInfo): void {
+    this.receive('services', upsertById(this.state.services.data, service));
+  }
+
+  /**
+   * Apply a connection returned by the backend after a change made from the UI
+   *
+   * @param connection - Updated connection
+   */
+  updateConnection(connection: GrpcConnection): void {
+    this.receive('connections', upsertById(this.state.connections.data, connection));
+  }
+
+  /**
+   * Subscribe to store changes
+   *
+   * @param listener - Called with the new state whenever it changes
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: DataListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private fetch(key: ResourceKey): Promise<unknown> {
+    switch (key) {
+      case 'services':
+        return ApiService.getServices();
+      case 'connections':
+        return ApiService.getConnections();
+      case 'logs':
+        return ApiService.getLogs({ limit: RECENT_LOG_LIMIT });
+      case 'stats':
+        return ApiService.getStats({ includeMethods: true });
+      case 'systemInfo':
+        return ApiService.getSystemInfo();
+    }
+  }
+
+  /**
+   * Have the server push updates for a resource that just gained its first consumer
+   */
+  private subscribeTopic(key: ResourceKey): void {
+    if (key === 'systemInfo') return;
+    this.subscriptionIds[key] =
+      key === 'stats'
+        ? socketService.subscribe('stats', { includeMethods: true })
+        : socketService.subscribe(key);
+  }
+
+  private unsubscribeTopic(key: ResourceKey): void {
+    const subscriptionId = this.subscriptionIds[key];
+    if (subscriptionId) socketService.unsubscribe(subscriptionId);
+    delete this.subscriptionIds[key];
+  }
+
+  private request(key: Exclude<ResourceKey, 'systemInfo'>): Promise<unknown> {
+    switch (key) {
+      case 'services':
+        return socketService.getServices({ queue: false });
+      case 'connections':
+        return socketService.getConnections({ queue: false });
+      case 'logs':
+        return socketService.getLogs({ limit: RECENT_LOG_LIMIT }, { queue: false });
+      case 'stats':
+        return socketService.getStats({ includeMethods: true }, { queue: false });
+    }
+  }
+
+  /**
+   * Ask for fresh copies of retained resources, over the WebSocket when it is connected
+   */
+  private requestRetained(): void {
+    const socketConnected = socketService.isConnected();
+    RESOURCE_KEYS.filter((key) => this.retainCount[key] > 0).forEach((key) => {
+      if (!socketConnected || key === 'systemInfo') {
+        this.refresh(key);
+      } else {
+        this.refreshOverSocket(key);
+      }
+    });
+  }
+
+  /**
+   * Reload a resource over the WebSocket, falling back to REST when the server doesn't answer
+   *
+   * @param key - Resource to reload
+   */
+  private async refreshOverSocket(key: Exclude<ResourceKey, 'systemInfo'>): Promise<void> {
+    const generation = this.generation;
+
+    try {
+      const data = await this.request(key);
+      if (generation !== this.generation) return;
+
+      this.receiveResponse(key, data);
+    } catch (error) {
+      if (generation !== this.generation) return;
+
+      console.warn(`WebSocket request for ${key} failed, falling back to HTTP:`, error);
+      this.refresh(key);
+    }
+  }
+
+  /**
+   * Apply the response to a REST or WebSocket request for a resource
+   */
+  private receiveResponse(key: ResourceKey, data: unknown): void {
+    if (key === 'stats') {
+      statsHistory.record(data as StatsData);
+      this.receiveStats(data as StatsData);
+    } else if (key === 'logs') {
+      this.receive('logs', mergeLogs(this.state.logs.data, data as LogEntry[]));
+    } else {
+      this.receive(key, data as DataState[typeof key]['data']);
+    }
+  }
+
+  private receiveStats(stats: StatsData): void {
+    // Broadcasts may omit the per-method breakdown; keep the last one we received
+    const previous = this.state.stats.data;
+    this.receive(
+      'stats',
+      stats.methods || !previous?.methods ? stats : { ...stats, methods: previous.methods },
+    );
+  }
+
+  private receive<K extends ResourceKey>(key: K, data: DataState[K]['data']): void {
+    this.updateResource(key, { data, updatedAt: Date.now(), loading: false, error: null });
+  }
+
+  private updateResource<K extends ResourceKey>(
+    key: K,
+    changes: Partial<Resource<DataState[K]['data']>>,
+  ): void {
+    this.setState({ [key]: { ...this.state[key], ...changes } } as Partial<DataState>);
+  }
+
+  /**
+   * Drop all cached data and reload what is in use, e.g. after switching backends
+   */
+  private reset(): void {
+    this.generation++;
+    this.setState(createInitialState());
+    RESOURCE_KEYS.filter((key) => this.retainCount[key] > 0).forEach((key) => this.refresh(key));
+  }
+
+  private setState(changes: Partial<DataState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.state);
+      } catch (error) {
+        console.error('Error in data store listener:', error);
+      }
+    });
+  }
+}
+
+// Create a singleton instance
+const dataStore = new DataStore();
+
+export default dataStore;
@@ -0,0 +1,226 @@
+import { notification } from 'antd';
+import { SETTINGS_STORAGE_KEY } from '../utils/settings';
+import ApiService, { API_PREFIX } from './api';
+import authService from './auth';
+import socketService from './socket';
+import statsHistory from './statsHistory';
+
+const STORAGE_KEY = 'grpcDashboardEnvironments';
+
+export const DEFAULT_ENVIRONMENT_ID = 'default';
+export const DEFAULT_NAMESPACE = '/grpc-dashboard';
+
+// 'login' signs in with a username and password; the others send static credentials
+export type EnvironmentAuthType = 'none' | 'bearer' | 'apiKey' | 'login';
+
+/**
+ * A named backend the dashboard can connect to
+ */
+export interface EnvironmentProfile {
+  id: string;
+  name: string;
+  color: string;
+  apiBaseUrl: string; // REST base URL, including the API prefix
+  socketUrl: string;
+  namespace: string;
+  authType: EnvironmentAuthType;
+  token?: string; // static bearer token or API key value
+  apiKeyHeader?: string; // header name for API key auth
+}
+
+interface EnvironmentState {
+  profiles: EnvironmentProfile[];
+  activeId: string;
+}
+
+type EnvironmentListener = (active: EnvironmentProfile, profiles: EnvironmentProfile[]) => void;
+
+/**
+ * Profile matching the dashboard's original single-backend behaviour
+ */
+const createDefaultProfile = (): EnvironmentProfile => {
+  let socketUrl = window.location.origin;
+
+  // Carry over the socket URL from before environments existed
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    if (typeof saved.socketUrl === 'string' && saved.socketUrl) socketUrl = saved.socketUrl;
+  } catch (error) {
+    console.error('Failed to parse saved settings:', error);
+  }
+
+  return {
+    id: DEFAULT_ENVIRONMENT_ID,
+    name: 'Local',
+    color: 'green',
+    apiBaseUrl: API_PREFIX,
+    socketUrl,
+    namespace: DEFAULT_NAMESPACE,
+    authType: 'none',
+  };
+};
+
+/**
+ * REST headers carrying a profile's credentials
+ */
+const getAuthHeaders = (profile: EnvironmentProfile): Record<string, string> => {
+  if (!profile.token || profile.authType === 'none' || profile.authType === 'login') return {};
+  return profile.authType === 'bearer'
+    ? { Authorization: `Bearer ${profile.token}` }
+    : { [profile.apiKeyHeader || 'X-API-Key']: profile.token };
+};
+
+/**
+ * Socket.IO handshake auth payload carrying a profile's credentials
+ */
+const getSocketAuth = (profile: EnvironmentProfile) => {
+  if (profile.authType === 'login') return () => authService.getSocketAuth();
+  if (!profile.token || profile.authType === 'none') return {};
+  return profile.authType === 'bearer' ? { token: profile.token } : { apiKey: profile.token };
+};
+
+/**
+ * Manages backend environment profiles and points the API and socket clients at the active one
+ */
+class EnvironmentService {
+  private profiles: EnvironmentProfile[] = [];
+  private activeId: string = DEFAULT_ENVIRONMENT_ID;
+  private listeners: EnvironmentListener[] = [];
+
+  constructor() {
+    this.load();
+    authService.setScope(this.getActive().id);
+  }
+
+  getProfiles(): EnvironmentProfile[] {
+    return this.profiles;
+  }
+
+  getActive(): EnvironmentProfile {
+    return this.profiles.find((profile) => profile.id === this.activeId) ?? this.profiles[0];
+  }
+
+  /**
+   * Whether the active environment needs a sign-in that has not happened yet
+   */
+  isLoginRequired(): boolean {
+    return this.getActive().authType === 'login' && !authService.isAuthenticated();
+  }
+
+  /**
+   * Configure the API client, socket and stats history for the active profile and (re)connect,
+   * leaving the socket disconnected until sign-in when the profile requires it
+   */
+  apply(): void {
+    const profile = this.getActive();
+
+    ApiService.configure(profile.apiBaseUrl, getAuthHeaders(profile));
+    authService.setScope(profile.id);
+    statsHistory.setScope(profile.id === DEFAULT_ENVIRONMENT_ID ? null : profile.id);
+
+    socketService.disconnect();
+    if (this.isLoginRequired()) return;
+
+    socketService.configureConnection({
+      namespace: profile.namespace,
+      auth: getSocketAuth(profile),
+    });
+    socketService.setAutoReconnect(true);
+    socketService.connect(profile.socketUrl);
+  }
+
+  /**
+   * Switch to another profile
+   *
+   * @param id - Profile ID
+   */
+  activate(id: string): void {
+    const profile = this.profiles.find((p) => p.id === id);
+    if (!profile || id === this.activeId) return;
+
+    this.activeId = id;
+    this.persist();
+    this.apply();
+    this.notify();
+
+    notification.info({
+      message: 'Environment Switched',
+      description: `Now connected to ${profile.name}.`,
+      duration: 3,
+    });
+  }
+
+  /**
+   * Replace the profile list, reconnecting if the active profile changed
+   *
+   * @param profiles - The new profiles; at least one is required
+   */
+  saveProfiles(profiles: EnvironmentProfile[]): void {
+    if (profiles.length === 0) return;
+
+    const previous = this.getActive();
+    this.profiles = profiles;
+    if (!profiles.some((profile) => profile.id === this.activeId)) {
+      this.activeId = profiles[0].id;
+    }
+    this.persist();
+
+    if (JSON.stringify(previous) !== JSON.stringify(this.getActive())) {
+      this.apply();
+    }
+    this.notify();
+  }
+
+  /**
+   * Subscribe to environment changes
+   *
+   * @param listener - Called with the active profile and all profiles whenever they change
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: EnvironmentListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    const active = this.getActive();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(active, this.profiles);
+      } catch (error) {
+        console.error('Error in environment listener:', error);
+      }
+    });
+  }
+
+  private load(): void {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      try {
+        const parsed: EnvironmentState = JSON.parse(saved);
+        if (Array.isArray(parsed.profiles) && parsed.profiles.length > 0) {
+          this.profiles = parsed.profiles;
+          this.activeId = parsed.activeId;
+          return;
+        }
+      } catch (error) {
+        console.error('Failed to parse saved environments:', error);
+      }
+    }
+
+    this.profiles = [createDefaultProfile()];
+    this.activeId = DEFAULT_ENVIRONMENT_ID;
+  }
+
+  private persist(): void {
+    const state: EnvironmentState = { profiles: this.profiles, activeId: this.activeId };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }
+}
+
+// Create a singleton instance
+const environmentService = new EnvironmentService();
+
+export default environmentService;
@@ -0,0 +1,109 @@
+import { CurrentUser, Permission } from '../types/api';
+import { ALL_PERMISSIONS, resolvePermissions } from '../utils/permissions';
+import ApiService from './api';
+import authService from './auth';
+import environmentService from './environments';
+
+export interface PermissionState {
+  user: CurrentUser | null;
+  permissions: Set<Permission>;
+  loaded: boolean;
+}
+
+type PermissionListener = (state: PermissionState) => void;
+
+/**
+ * Loads the current user's roles from `/me` and answers permission checks for the UI
+ */
+class PermissionService {
+  private state: PermissionState = { user: null, permissions: new Set(), loaded: false };
+  private listeners: PermissionListener[] = [];
+  private unsubscribers: (() => void)[] = [];
+  private requestId: number = 0;
+
+  /**
+   * Load permissions and reload them whenever the environment or session changes
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers = [
+      environmentService.subscribe(() => this.load()),
+      authService.subscribe(() => this.load()),
+    ];
+    this.load();
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  getState(): PermissionState {
+    return this.state;
+  }
+
+  /**
+   * Check whether the current user has a permission
+   *
+   * @param permission - Permission to check
+   */
+  has(permission: Permission): boolean {
+    return this.state.permissions.has(permission);
+  }
+
+  /**
+   * Subscribe to permission changes
+   *
+   * @param listener - Called with the new state whenever it changes
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: PermissionListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private async load(): Promise<void> {
+    // Ignore responses for an environment or session that is no longer current
+    const requestId = ++this.requestId;
+    this.setState({ user: null, permissions: new Set(), loaded: false });
+
+    if (environmentService.isLoginRequired()) return;
+
+    try {
+      const user = await ApiService.getMe();
+      if (requestId !== this.requestId) return;
+
+      // Backends without `/me` have no access control, so nothing is restricted
+      this.setState({
+        user,
+        permissions: user ? resolvePermissions(user) : new Set(ALL_PERMISSIONS),
+        loaded: true,
+      });
+    } catch (error) {
+      if (requestId !== this.requestId) return;
+      console.error('Error fetching current user:', error);
+
+      // Fail closed: without a confirmed role only read access is granted
+      this.setState({ user: null, permissions: new Set(), loaded: true });
+    }
+  }
+
+  private setState(state: PermissionState): void {
+    this.state = state;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Error in permission listener:', error);
+      }
+    });
+  }
+}
+
+// Create a singleton instance
+const permissionService = new PermissionService();
+
+export default permissionService;
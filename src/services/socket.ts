@@ -11,13 +11,104 @@ type SocketEventHandlers = {
   connect: () => void;
   disconnect: () => void;
   connect_error: (error: Error) => void;
+  state: (state: SocketConnectionState) => void;
 };
 
+// Lifecycle of the connection, driven by a single reconnection loop
+export type SocketConnectionState =
+  | { status: 'connecting' }
+  | { status: 'connected' }
+  | { status: 'reconnecting'; attempt: number; retryAt: number } // retryAt: epoch ms
+  | { status: 'offline' };
+
 // Socket request options
 interface GetLogsOptions {
   levels?: string[];
-  service?: string;
+  service?: string | undefined;
   limit?: number;
+  before?: string; // cursor: only entries older than this log id or ISO timestamp
+  after?: string; // cursor: only entries newer than this log id or ISO timestamp
+  query?: string | undefined; // log query, for backends that filter server-side
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+}
+
+interface GetStatsOptions {
+  includeMethods?: boolean;
+}
+
+// Filters the server applies before pushing events for each topic
+export type SocketTopicFilters = {
+  logs: {
+    levels?: string[] | undefined;
+    service?: string | undefined;
+    traceId?: string | undefined;
+    query?: string | undefined; // log query, for backends that filter server-side
+  };
+  stats: {
+    interval?: number | undefined; // minimum ms between pushes
+    includeMethods?: boolean | undefined;
+  };
+  services: Record<string, never>;
+  connections: Record<string, never>; // covers both `connections` and `connection` events
+};
+
+export type SocketTopic = keyof SocketTopicFilters;
+
+// A topic subscription, replayed to the server after every reconnect
+interface SocketSubscription {
+  id: string;
+  topic: SocketTopic;
+  filter: SocketTopicFilters[SocketTopic];
+}
+
+// Requests answered through socket.io acknowledgements, with their payload and reply types
+export type SocketRequests = {
+  getServices: { params: void; response: GrpcServiceInfo[] };
+  getConnections: { params: void; response: GrpcConnection[] };
+  getLogs: { params: GetLogsOptions | undefined; response: LogEntry[] };
+  getStats: { params: GetStatsOptions | undefined; response: StatsData };
+  subscribe: { params: SocketSubscription; response: void };
+  unsubscribe: { params: { id: string }; response: void };
+};
+
+export interface SocketRequestOptions {
+  timeout?: number; // ms to wait for the acknowledgement
+  queue?: boolean; // hold the request until reconnected instead of failing while offline
+}
+
+// A request made while offline, sent once the socket reconnects
+interface QueuedRequest {
+  event: keyof SocketRequests;
+  params: unknown;
+  timeout: number;
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+  expiryId: number;
+}
+
+// Time allowed for the server to acknowledge a request
+const REQUEST_TIMEOUT = 10000;
+
+// Time a request may wait in the offline queue for a reconnect
+const QUEUE_TIMEOUT = 30000;
+
+// Most requests held while offline; the oldest are rejected beyond this
+const MAX_QUEUED_REQUESTS = 50;
+
+// Reconnection delay before the first retry; it doubles with each failed attempt
+const RECONNECT_BASE_DELAY = 1000;
+
+// Upper bound on the reconnection delay, however many attempts have failed
+const RECONNECT_MAX_DELAY = 30 * 1000;
+
+// Handshake auth payload, or a function read on every (re)connection attempt
+type SocketAuth = Record<string, string> | (() => Record<string, string>);
+
+// Connection options that vary between backend environments
+interface SocketConnectionOptions {
+  namespace?: string;
+  auth?: SocketAuth;
 }
 
 /**
@@ -26,12 +117,18 @@ interface GetLogsOptions {
 class SocketService {
   private socket: Socket | null = null;
   private handlers: Partial<Record<keyof SocketEventHandlers, Function[]>> = {};
-  private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 5;
-  private reconnectionDelay: number = 1000;
+  private reconnectAttempt: number = 0;
+  private reconnectBaseDelay: number = RECONNECT_BASE_DELAY;
+  private reconnectMaxDelay: number = RECONNECT_MAX_DELAY;
+  private reconnectTimer: number | undefined;
+  private connectionState: SocketConnectionState = { status: 'offline' };
   private url: string = '';
   private namespace: string = '/grpc-dashboard';
   private autoReconnect: boolean = true;
+  private auth: SocketAuth = {};
+  private requestQueue: QueuedRequest[] = [];
+  private subscriptions: Map<string, SocketSubscription> = new Map();
+  private subscriptionCounter: number = 0;
 
   /**
    * Connect to the WebSocket server
@@ -42,108 +139,178 @@ class SocketService {
   connect(url: string = window.location.origin): Socket | null {
     // Store URL for reconnection
     this.url = url;
+    this.clearReconnectTimer();
+    this.reconnectAttempt = 0;
 
-    if (this.socket) {
-      this.disconnect();
+    return this.open();
+  }
+
+  /**
+   * Create the socket for the stored URL, replacing any previous one
+   *
+   * @private
+   * @returns Socket instance
+   */
+  private open(): Socket | null {
+    this.closeSocket();
+    if (this.reconnectAttempt === 0) {
+      this.setConnectionState({ status: 'connecting' });
     }
 
     try {
-      // Create a new socket connection
-      this.socket = io(`${url}${this.namespace}`, {
+      // Create a new socket connection; reconnection is handled by scheduleReconnect instead
+      const socket = io(`${this.url}${this.namespace}`, {
         transports: ['websocket', 'polling'],
-        reconnectionAttempts: this.maxReconnectAttempts,
-        reconnectionDelay: this.reconnectionDelay,
+        reconnection: false,
         timeout: 10000,
+        auth: (cb) => cb(typeof this.auth === 'function' ? this.auth() : this.auth),
       });
+      this.socket = socket;
 
-      // Set up listeners for built-in events
-      this.socket.on('connect', () => {
+      // Set up listeners for built-in events, ignoring late events from replaced sockets
+      socket.on('connect', () => {
+        if (socket !== this.socket) return;
         console.log('WebSocket connected');
-        this.reconnectAttempts = 0;
+        this.reconnectAttempt = 0;
+        this.setConnectionState({ status: 'connected' });
         this.triggerHandlers('connect');
+        this.flushRequestQueue();
+
+        // The server forgets subscriptions when the connection drops
+        this.subscriptions.forEach((subscription) => this.sendSubscription(subscription));
       });
 
-      this.socket.on('disconnect', (reason) => {
+      socket.on('disconnect', (reason) => {
+        if (socket !== this.socket) return;
         console.log(`WebSocket disconnected: ${reason}`);
         this.triggerHandlers('disconnect');
 
         // Handle reconnection if not explicitly closed
-        if (this.autoReconnect && reason !== 'io client disconnect') {
-          this.attemptReconnect();
+        if (reason !== 'io client disconnect') {
+          this.scheduleReconnect();
         }
       });
 
-      this.socket.on('connect_error', (error) => {
+      socket.on('connect_error', (error) => {
+        if (socket !== this.socket) return;
         console.error('WebSocket connection error:', error);
         this.triggerHandlers('connect_error', error);
-
-        // Handle reconnection
-        if (this.autoReconnect) {
-          this.attemptReconnect();
-        }
+        this.scheduleReconnect();
       });
 
       // Set up listeners for custom events
-      this.socket.on('log', (log: LogEntry) => {
+      socket.on('log', (log: LogEntry) => {
         this.triggerHandlers('log', log);
       });
 
-      this.socket.on('services', (services: GrpcServiceInfo[]) => {
+      socket.on('services', (services: GrpcServiceInfo[]) => {
         this.triggerHandlers('services', services);
       });
 
-      this.socket.on('connections', (connections: GrpcConnection[]) => {
+      socket.on('connections', (connections: GrpcConnection[]) => {
         this.triggerHandlers('connections', connections);
       });
 
-      this.socket.on('connection', (connection: GrpcConnection) => {
+      socket.on('connection', (connection: GrpcConnection) => {
         this.triggerHandlers('connection', connection);
       });
 
-      this.socket.on('stats', (stats: StatsData) => {
+      socket.on('stats', (stats: StatsData) => {
         this.triggerHandlers('stats', stats);
       });
 
-      return this.socket;
+      return socket;
     } catch (error) {
       console.error('Error creating socket connection:', error);
+      this.scheduleReconnect();
       return null;
     }
   }
 
   /**
-   * Attempt to reconnect to the WebSocket server
+   * Retry after an exponentially growing, jittered delay, with no limit on attempts
    *
    * @private
    */
-  private attemptReconnect(): void {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(
-        `Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`,
-      );
-
-      setTimeout(() => {
-        this.connect(this.url);
-      }, this.reconnectionDelay * this.reconnectAttempts);
-    } else {
-      console.error('Maximum reconnection attempts reached');
+  private scheduleReconnect(): void {
+    if (!this.autoReconnect) {
+      this.setConnectionState({ status: 'offline' });
+      return;
     }
+    if (this.reconnectTimer !== undefined) return;
+
+    this.reconnectAttempt++;
+    const delay = this.getReconnectDelay(this.reconnectAttempt);
+    console.log(
+      `Reconnecting in ${Math.round(delay / 1000)}s (attempt ${this.reconnectAttempt})...`,
+    );
+
+    this.setConnectionState({
+      status: 'reconnecting',
+      attempt: this.reconnectAttempt,
+      retryAt: Date.now() + delay,
+    });
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.open();
+    }, delay);
+  }
+
+  /**
+   * Delay before a reconnection attempt, in ms
+   *
+   * @private
+   * @param attempt - Attempt number, starting at 1
+   */
+  private getReconnectDelay(attempt: number): number {
+    const delay = Math.min(this.reconnectMaxDelay, this.reconnectBaseDelay * 2 ** (attempt - 1));
+    // Spread retries between half and all of the delay so clients don't reconnect in lockstep
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * Skip the wait and make the pending reconnection attempt now
+   */
+  retryNow(): void {
+    if (this.connectionState.status !== 'reconnecting') return;
+    this.clearReconnectTimer();
+    this.open();
   }
 
   /**
-   * Disconnect from the WebSocket server
+   * Disconnect from the WebSocket server and stop reconnecting
    */
   disconnect(): void {
+    this.clearReconnectTimer();
+    this.reconnectAttempt = 0;
+    this.closeSocket();
+    this.setConnectionState({ status: 'offline' });
+  }
+
+  /**
+   * Current connection state
+   */
+  getConnectionState(): SocketConnectionState {
+    return this.connectionState;
+  }
+
+  private closeSocket(): void {
     if (this.socket) {
-      // Prevent auto reconnect when explicitly disconnected
-      this.autoReconnect = false;
       this.socket.disconnect();
       this.socket = null;
-      this.reconnectAttempts = 0;
     }
   }
 
+  private clearReconnectTimer(): void {
+    window.clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+  }
+
+  private setConnectionState(state: SocketConnectionState): void {
+    this.connectionState = state;
+    this.triggerHandlers('state', state);
+  }
+
   /**
    * Register an event handler
    *
@@ -195,51 +362,178 @@ class SocketService {
   }
 
   /**
-   * Request services from the server
+   * Send a request and wait for the server's acknowledgement
+   *
+   * @param event - Request event name
+   * @param params - Request payload
+   * @param options - Timeout and offline queueing
+   * @returns The acknowledged response; rejects on timeout, or while offline when not queued
    */
-  getServices(): void {
+  request<K extends keyof SocketRequests>(
+    event: K,
+    params?: SocketRequests[K]['params'],
+    options: SocketRequestOptions = {},
+  ): Promise<SocketRequests[K]['response']> {
+    const timeout = options.timeout ?? REQUEST_TIMEOUT;
+
     if (this.socket && this.socket.connected) {
-      this.socket.emit('getServices');
-    } else {
-      console.warn('Cannot get services: Socket not connected');
+      return this.send(event, params, timeout);
+    }
+
+    if (options.queue === false) {
+      return Promise.reject(new Error(`Cannot send ${event}: Socket not connected`));
     }
+
+    return new Promise((resolve, reject) => {
+      const request: QueuedRequest = {
+        event,
+        params,
+        timeout,
+        resolve,
+        reject,
+        expiryId: window.setTimeout(() => {
+          this.requestQueue = this.requestQueue.filter((r) => r !== request);
+          reject(new Error(`Cannot send ${event}: Still offline after ${QUEUE_TIMEOUT / 1000}s`));
+        }, QUEUE_TIMEOUT),
+      };
+      this.requestQueue.push(request);
+
+      if (this.requestQueue.length > MAX_QUEUED_REQUESTS) {
+        const dropped = this.requestQueue.shift()!;
+        window.clearTimeout(dropped.expiryId);
+        dropped.reject(new Error(`Cannot send ${dropped.event}: Offline queue is full`));
+      }
+    });
+  }
+
+  /**
+   * Request services from the server
+   *
+   * @param options - Timeout and offline queueing
+   */
+  getServices(options?: SocketRequestOptions): Promise<GrpcServiceInfo[]> {
+    return this.request('getServices', undefined, options);
   }
 
   /**
    * Request connections from the server
+   *
+   * @param options - Timeout and offline queueing
    */
-  getConnections(): void {
-    if (this.socket && this.socket.connected) {
-      this.socket.emit('getConnections');
-    } else {
-      console.warn('Cannot get connections: Socket not connected');
-    }
+  getConnections(options?: SocketRequestOptions): Promise<GrpcConnection[]> {
+    return this.request('getConnections', undefined, options);
   }
 
   /**
    * Request logs from the server
    *
-   * @param options - Options for filtering logs
+   * @param filters - Options for filtering logs
+   * @param options - Timeout and offline queueing
    */
-  getLogs(options?: GetLogsOptions): void {
-    if (this.socket && this.socket.connected) {
-      this.socket.emit('getLogs', options);
-    } else {
-      console.warn('Cannot get logs: Socket not connected');
-    }
+  getLogs(filters?: GetLogsOptions, options?: SocketRequestOptions): Promise<LogEntry[]> {
+    return this.request('getLogs', filters, options);
   }
 
   /**
    * Request stats from the server
+   *
+   * @param filters - Options for the stats breakdown
+   * @param options - Timeout and offline queueing
    */
-  getStats(): void {
-    if (this.socket && this.socket.connected) {
-      this.socket.emit('getStats');
-    } else {
-      console.warn('Cannot get stats: Socket not connected');
+  getStats(filters?: GetStatsOptions, options?: SocketRequestOptions): Promise<StatsData> {
+    return this.request('getStats', filters, options);
+  }
+
+  /**
+   * Ask the server to push a topic's events, limited to those matching the filter. Events still
+   * arrive through `on`; servers without subscription support keep broadcasting everything.
+   *
+   * @param topic - Topic to receive
+   * @param filter - Filter the server applies before pushing
+   * @returns Subscription ID to pass to `unsubscribe`
+   */
+  subscribe<T extends SocketTopic>(topic: T, filter: SocketTopicFilters[T] = {}): string {
+    const subscription: SocketSubscription = {
+      id: `sub-${++this.subscriptionCounter}`,
+      topic,
+      filter,
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    if (this.isConnected()) this.sendSubscription(subscription);
+
+    return subscription.id;
+  }
+
+  /**
+   * Stop receiving a subscribed topic
+   *
+   * @param subscriptionId - ID returned by `subscribe`
+   */
+  unsubscribe(subscriptionId: string): void {
+    if (!this.subscriptions.delete(subscriptionId)) return;
+
+    if (this.isConnected()) {
+      this.request('unsubscribe', { id: subscriptionId }, { queue: false }).catch((error) =>
+        console.warn(`Failed to unsubscribe ${subscriptionId}:`, error),
+      );
     }
   }
 
+  /**
+   * Register a subscription with the server
+   *
+   * @private
+   * @param subscription - Subscription to send
+   */
+  private sendSubscription(subscription: SocketSubscription): void {
+    this.request('subscribe', subscription, { queue: false }).catch((error) =>
+      console.warn(`Failed to subscribe to ${subscription.topic}:`, error),
+    );
+  }
+
+  /**
+   * Emit a request with an acknowledgement callback
+   *
+   * @private
+   * @param event - Request event name
+   * @param params - Request payload, left out of the emit when undefined
+   * @param timeout - ms to wait for the acknowledgement
+   */
+  private send(event: keyof SocketRequests, params: unknown, timeout: number): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const args = params === undefined ? [] : [params];
+      this.socket!.timeout(timeout).emit(
+        event,
+        ...args,
+        (error: Error | null, response: unknown) => {
+          if (error) {
+            reject(new Error(`${event} was not acknowledged within ${timeout}ms`));
+          } else {
+            resolve(response);
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Send requests that were queued while offline
+   *
+   * @private
+   */
+  private flushRequestQueue(): void {
+    const queued = this.requestQueue;
+    this.requestQueue = [];
+
+    queued.forEach((request) => {
+      window.clearTimeout(request.expiryId);
+      this.send(request.event, request.params, request.timeout).then(
+        request.resolve,
+        request.reject,
+      );
+    });
+  }
+
   /**
    * Check if the socket is connected
    *
@@ -259,17 +553,32 @@ class SocketService {
   }
 
   /**
-   * Configure reconnection settings
+   * Configure the namespace and auth payload used by subsequent connections
    *
-   * @param options - Reconnection options
+   * @param options - Connection options
    */
-  configureReconnection(options: { maxAttempts?: number; delay?: number }): void {
-    if (options.maxAttempts !== undefined) {
-      this.maxReconnectAttempts = options.maxAttempts;
+  configureConnection(options: SocketConnectionOptions): void {
+    if (options.namespace !== undefined) {
+      this.namespace = options.namespace;
+    }
+
+    if (options.auth !== undefined) {
+      this.auth = options.auth;
     }
+  }
 
+  /**
+   * Configure reconnection settings
+   *
+   * @param options - Delay before the first retry and the cap on later ones, in ms
+   */
+  configureReconnection(options: { delay?: number; maxDelay?: number }): void {
     if (options.delay !== undefined) {
-      this.reconnectionDelay = options.delay;
+      this.reconnectBaseDelay = options.delay;
+    }
+
+    if (options.maxDelay !== undefined) {
+      this.reconnectMaxDelay = options.maxDelay;
     }
   }
 }
@@ -0,0 +1,182 @@
+import { StatsData } from '../types/api';
+import socketService from './socket';
+
+const STORAGE_KEY = 'grpcDashboardStatsHistory';
+
+// Keep a full day of snapshots so the 24h window has data to show
+const MAX_HISTORY_AGE = 24 * 60 * 60 * 1000;
+
+// Snapshots arriving closer together than this replace the previous one
+const MIN_SNAPSHOT_SPACING = 10 * 1000;
+
+// Persisting on every snapshot would hammer localStorage
+const PERSIST_THROTTLE = 30 * 1000;
+
+/**
+ * A stats snapshot with the time (epoch ms) it was received
+ */
+export interface StatsSnapshot extends Omit<StatsData, 'methods'> {
+  timestamp: number;
+}
+
+type HistoryListener = (snapshots: StatsSnapshot[]) => void;
+
+/**
+ * Rolling, persisted history of stats snapshots received over REST and WebSocket
+ */
+class StatsHistoryService {
+  private snapshots: StatsSnapshot[] = [];
+  private listeners: HistoryListener[] = [];
+  private unsubscribeSocket: (() => void) | null = null;
+  private subscriptionId: string | null = null;
+  private lastPersisted: number = 0;
+  private storageKey: string = STORAGE_KEY;
+
+  constructor() {
+    this.load();
+  }
+
+  /**
+   * Start recording stats pushed over the WebSocket
+   */
+  start(): void {
+    if (this.unsubscribeSocket) return;
+    this.unsubscribeSocket = socketService.on('stats', (stats) => this.record(stats));
+    // Pushes closer together than the snapshot spacing would only replace each other
+    this.subscriptionId = socketService.subscribe('stats', { interval: MIN_SNAPSHOT_SPACING });
+  }
+
+  /**
+   * Stop recording and flush the history to storage
+   */
+  stop(): void {
+    this.unsubscribeSocket?.();
+    this.unsubscribeSocket = null;
+    if (this.subscriptionId) socketService.unsubscribe(this.subscriptionId);
+    this.subscriptionId = null;
+    this.persist(true);
+  }
+
+  /**
+   * Add a snapshot to the history
+   *
+   * @param stats - Stats as returned by the backend
+   * @param timestamp - Time the stats were received (defaults to now)
+   */
+  record(stats: StatsData, timestamp: number = Date.now()): void {
+    // Only the global counters are charted; the per-method map would bloat storage
+    const { methods: _methods, ...totals } = stats;
+    const snapshot: StatsSnapshot = { ...totals, timestamp };
+    const last = this.snapshots[this.snapshots.length - 1];
+
+    if (last && timestamp - last.timestamp < MIN_SNAPSHOT_SPACING) {
+      this.snapshots[this.snapshots.length - 1] = snapshot;
+    } else {
+      this.snapshots.push(snapshot);
+    }
+
+    this.prune(timestamp);
+    this.persist();
+    this.notify();
+  }
+
+  /**
+   * Get snapshots newer than the given window
+   *
+   * @param windowMs - Window length in milliseconds (defaults to the full history)
+   */
+  getSnapshots(windowMs: number = MAX_HISTORY_AGE): StatsSnapshot[] {
+    const since = Date.now() - windowMs;
+    return this.snapshots.filter((snapshot) => snapshot.timestamp >= since);
+  }
+
+  /**
+   * Remove all recorded snapshots
+   */
+  clear(): void {
+    this.snapshots = [];
+    localStorage.removeItem(this.storageKey);
+    this.notify();
+  }
+
+  /**
+   * Switch to the separate history kept for another backend environment
+   *
+   * @param scope - Environment ID, or null for the default history
+   */
+  setScope(scope: string | null): void {
+    const key = scope ? `${STORAGE_KEY}:${scope}` : STORAGE_KEY;
+    if (key === this.storageKey) return;
+
+    this.persist(true);
+    this.storageKey = key;
+    this.snapshots = [];
+    this.load();
+    this.notify();
+  }
+
+  /**
+   * Subscribe to history changes
+   *
+   * @param listener - Called with the full history whenever it changes
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.snapshots);
+      } catch (error) {
+        console.error('Error in stats history listener:', error);
+      }
+    });
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - MAX_HISTORY_AGE;
+    const firstValid = this.snapshots.findIndex((snapshot) => snapshot.timestamp >= cutoff);
+    if (firstValid > 0) {
+      this.snapshots = this.snapshots.slice(firstValid);
+    } else if (firstValid === -1) {
+      this.snapshots = [];
+    }
+  }
+
+  private load(): void {
+    const saved = localStorage.getItem(this.storageKey);
+    if (!saved) return;
+
+    try {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        this.snapshots = parsed;
+        this.prune(Date.now());
+      }
+    } catch (error) {
+      console.error('Failed to parse saved stats history:', error);
+    }
+  }
+
+  private persist(force: boolean = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastPersisted < PERSIST_THROTTLE) return;
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.snapshots));
+      this.lastPersisted = now;
+    } catch (error) {
+      console.error('Failed to persist stats history:', error);
+    }
+  }
+}
+
+// Create a singleton instance
+const statsHistory = new StatsHistoryService();
+
+export default statsHistory;
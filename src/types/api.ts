@@ -1,11 +1,78 @@
+export interface MethodDescriptor {
+  name: string;
+  inputType: string; // fully-qualified message name
+  outputType: string; // fully-qualified message name
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  comment?: string;
+}
+
 export interface GrpcServiceInfo {
   id: string;
   name: string;
   methods: string[];
+  methodDescriptors?: MethodDescriptor[];
   package: string;
   status: 'active' | 'inactive';
   url: string;
   lastActivity?: string; // ISO date string
+  disabled?: boolean; // stopped from serving by an operator
+  disabledMethods?: string[]; // methods stopped individually while the service keeps serving
+}
+
+export interface ServingStateRequest {
+  enabled: boolean;
+  reason?: string;
+}
+
+export interface FieldDescriptor {
+  name: string;
+  number: number;
+  type: string; // scalar type such as 'string' or 'int64', or 'message' / 'enum'
+  typeName?: string; // fully-qualified name for message and enum fields
+  label: 'optional' | 'required' | 'repeated';
+  mapKeyType?: string; // set for map fields; type/typeName then describe the value
+  oneof?: string;
+  comment?: string;
+}
+
+export interface MessageDescriptor {
+  name: string; // fully-qualified
+  fields: FieldDescriptor[];
+  comment?: string;
+}
+
+export interface EnumValueDescriptor {
+  name: string;
+  number: number;
+  comment?: string;
+}
+
+export interface EnumDescriptor {
+  name: string; // fully-qualified
+  values: EnumValueDescriptor[];
+  comment?: string;
+}
+
+export interface ServiceSchema {
+  source: 'reflection' | 'proto';
+  methods: MethodDescriptor[];
+  messages: Record<string, MessageDescriptor>; // keyed by fully-qualified name
+  enums: Record<string, EnumDescriptor>; // keyed by fully-qualified name
+}
+
+export interface InvokeMethodRequest {
+  payload: unknown; // JSON request message
+  metadata?: Record<string, string>;
+}
+
+export interface InvokeMethodResponse {
+  response: unknown; // JSON response message, null when the call failed
+  statusCode: number; // gRPC status code
+  statusMessage?: string;
+  headers?: Record<string, string>;
+  trailers?: Record<string, string>;
+  elapsedMs: number;
 }
 
 export interface GrpcConnection {
@@ -13,17 +80,63 @@ export interface GrpcConnection {
   clientId: string;
   service: string;
   url: string;
-  status: 'connected' | 'disconnected' | 'error';
+  status: 'connected' | 'draining' | 'disconnected' | 'error';
   established: string; // ISO date string
   lastActivity: string; // ISO date string
   metadata?: Record<string, string>;
 }
 
+// Draining stops new calls and closes the connection once in-flight calls finish
+export type ConnectionAction = 'disconnect' | 'drain';
+
+export interface ConnectionActionRequest {
+  reason?: string;
+}
+
+/**
+ * An operator action recorded by the backend, which takes the actor from the request's token
+ */
+export interface AuditEntry {
+  id: string;
+  action: string; // e.g. "connection.drain"
+  target: string; // id of the connection, service or method acted on
+  actor: string;
+  timestamp: string; // ISO date string
+  outcome: 'success' | 'failure';
+  reason?: string;
+  error?: string;
+}
+
+export interface LatencyBucket {
+  le: number | null; // upper bound in ms, null for the overflow bucket
+  count: number;
+}
+
+export interface LatencyStats {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  histogram?: LatencyBucket[];
+}
+
+export interface MethodStats {
+  service: string;
+  method: string;
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  avgResponseTime: number;
+  latency?: LatencyStats;
+}
+
 export interface StatsData {
   totalRequests: number;
   successfulRequests: number;
   failedRequests: number;
   avgResponseTime: number;
+  latency?: LatencyStats;
+  methods?: Record<string, MethodStats>; // keyed by `${service}/${method}`
 }
 
 export interface SystemInfo {
@@ -47,4 +160,43 @@ export interface LogEntry {
   service?: string;
   method?: string;
   traceId?: string;
+  data?: Record<string, unknown>; // structured fields such as request metadata and payload snippets
+  stack?: string;
+  statusCode?: number; // gRPC status code
+  durationMs?: number;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  name?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn?: number; // seconds until the access token expires
+  user?: AuthUser;
+}
+
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export type Permission =
+  | 'data:export'
+  | 'methods:invoke'
+  | 'connections:manage'
+  | 'services:manage'
+  | 'settings:manage';
+
+export interface CurrentUser {
+  id: string;
+  username: string;
+  name?: string;
+  roles: Role[];
+  permissions?: Permission[]; // granted in addition to those of the roles
 }
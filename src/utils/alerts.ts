@@ -0,0 +1,143 @@
+import { GrpcConnection, GrpcServiceInfo, LogEntry, LogLevel, StatsData } from '../types/api';
+import { calculateSuccessRate } from './metrics';
+
+export type AlertSeverity = 'info' | 'warning' | 'error';
+export type AlertOperator = '<' | '>';
+export type StatsMetric = 'successRate' | 'failedRequests' | 'avgResponseTime' | 'p95';
+
+interface BaseAlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+}
+
+// A stats metric crossing a threshold, held for `forMinutes` before firing
+export interface StatsAlertRule extends BaseAlertRule {
+  type: 'stats';
+  metric: StatsMetric;
+  operator: AlertOperator;
+  threshold: number;
+  forMinutes: number;
+}
+
+// A service, or any service when `service` is '*', reported as inactive
+export interface ServiceAlertRule extends BaseAlertRule {
+  type: 'service';
+  service: string;
+  forMinutes: number;
+}
+
+// The number of connections in a given status crossing a threshold
+export interface ConnectionAlertRule extends BaseAlertRule {
+  type: 'connections';
+  status: GrpcConnection['status'];
+  operator: AlertOperator;
+  threshold: number;
+  forMinutes: number;
+}
+
+// More than `threshold` matching log entries within a sliding window
+export interface LogRateAlertRule extends BaseAlertRule {
+  type: 'logRate';
+  level: LogLevel;
+  context?: string; // matched against the entry's context or service
+  threshold: number;
+  windowMinutes: number;
+}
+
+export type AlertRule = StatsAlertRule | ServiceAlertRule | ConnectionAlertRule | LogRateAlertRule;
+export type AlertRuleType = AlertRule['type'];
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  message: string;
+  firedAt: string; // ISO date string
+  resolvedAt?: string; // ISO date string
+}
+
+export const ALERT_RULE_TYPES: Record<AlertRuleType, string> = {
+  stats: 'Stats metric',
+  service: 'Service inactive',
+  connections: 'Connection count',
+  logRate: 'Log rate',
+};
+
+export const STATS_METRICS: Record<StatsMetric, { label: string; unit: string }> = {
+  successRate: { label: 'Success rate', unit: '%' },
+  failedRequests: { label: 'Failed requests', unit: '' },
+  avgResponseTime: { label: 'Avg response time', unit: 'ms' },
+  p95: { label: 'p95 latency', unit: 'ms' },
+};
+
+export const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: 'blue',
+  warning: 'orange',
+  error: 'red',
+};
+
+/**
+ * Read a stats metric, or null when the stats do not report it
+ */
+export const getStatsMetric = (stats: StatsData, metric: StatsMetric): number | null => {
+  switch (metric) {
+    case 'successRate':
+      return calculateSuccessRate(stats);
+    case 'failedRequests':
+      return stats.failedRequests;
+    case 'avgResponseTime':
+      return stats.avgResponseTime;
+    case 'p95':
+      return stats.latency?.p95 ?? null;
+  }
+};
+
+/**
+ * Compare a value against a threshold
+ */
+export const compare = (value: number, operator: AlertOperator, threshold: number): boolean =>
+  operator === '<' ? value < threshold : value > threshold;
+
+/**
+ * Services matched by a service rule that are currently inactive
+ */
+export const getInactiveServices = (
+  rule: ServiceAlertRule,
+  services: GrpcServiceInfo[],
+): string[] =>
+  services
+    .filter((service) => rule.service === '*' || service.name === rule.service)
+    .filter((service) => service.status === 'inactive')
+    .map((service) => service.name);
+
+/**
+ * Check whether a log entry counts towards a log rate rule
+ */
+export const matchesLogRule = (rule: LogRateAlertRule, log: LogEntry): boolean =>
+  log.level === rule.level &&
+  (!rule.context || log.context === rule.context || log.service === rule.context);
+
+/**
+ * Human-readable summary of a rule's condition
+ */
+export const describeRule = (rule: AlertRule): string => {
+  const held = (minutes: number) => (minutes > 0 ? ` for ${minutes} min` : '');
+
+  switch (rule.type) {
+    case 'stats': {
+      const { label, unit } = STATS_METRICS[rule.metric];
+      return `${label} ${rule.operator} ${rule.threshold}${unit}${held(rule.forMinutes)}`;
+    }
+    case 'service':
+      return `${rule.service === '*' ? 'Any service' : rule.service} inactive${held(rule.forMinutes)}`;
+    case 'connections':
+      return `${rule.status} connections ${rule.operator} ${rule.threshold}${held(rule.forMinutes)}`;
+    case 'logRate':
+      return `More than ${rule.threshold} ${rule.level} logs${
+        rule.context ? ` from ${rule.context}` : ''
+      } in ${rule.windowMinutes} min`;
+  }
+};
@@ -0,0 +1,151 @@
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'text';
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+};
+
+/**
+ * A column that can be picked for export
+ */
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => unknown;
+  // Rendering for plain-text lines; defaults to the value as a string
+  text?: (row: T) => string;
+  // Columns are selected up front unless this is false
+  defaultSelected?: boolean;
+}
+
+/**
+ * String form of a cell, with objects and arrays as compact JSON
+ */
+const stringifyCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or line break
+ */
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * A row reduced to the selected columns, keyed by column key
+ */
+const pickColumns = <T>(row: T, columns: ExportColumn<T>[]): Record<string, unknown> =>
+  Object.fromEntries(columns.map((column) => [column.key, column.value(row) ?? null]));
+
+/**
+ * Serialize rows as chunks (one or more per row) so large exports never build a single string
+ *
+ * @param rows - Rows to export
+ * @param columns - Selected columns, in output order
+ * @param format - Output format
+ */
+export const serializeExport = <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+): string[] => {
+  switch (format) {
+    case 'json':
+      return [
+        '[\n',
+        ...rows.map(
+          (row, i) =>
+            `  ${JSON.stringify(pickColumns(row, columns))}${i < rows.length - 1 ? ',' : ''}\n`,
+        ),
+        ']\n',
+      ];
+    case 'ndjson':
+      return rows.map((row) => `${JSON.stringify(pickColumns(row, columns))}\n`);
+    case 'csv':
+      return [
+        `${columns.map((column) => escapeCsvCell(column.label)).join(',')}\r\n`,
+        ...rows.map(
+          (row) =>
+            `${columns
+              .map((column) => escapeCsvCell(stringifyCell(column.value(row))))
+              .join(',')}\r\n`,
+        ),
+      ];
+    case 'text':
+      return rows.map(
+        (row) =>
+          `${columns
+            .map((column) => (column.text ? column.text(row) : stringifyCell(column.value(row))))
+            .filter(Boolean)
+            .join(' ')}\n`,
+      );
+  }
+};
+
+/**
+ * Build the export as a Blob and hand it to the browser as a download
+ *
+ * @param rows - Rows to export
+ * @param columns - Selected columns, in output order
+ * @param format - Output format
+ * @param baseName - File name without date or extension, e.g. "grpc-logs"
+ */
+export const downloadExport = <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+  baseName: string,
+): void => {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const blob = new Blob(serializeExport(rows, columns, format), {
+    type: `${mimeType};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', url);
+  linkElement.setAttribute(
+    'download',
+    `${baseName}-${new Date().toISOString().slice(0, 10)}.${extension}`,
+  );
+  linkElement.click();
+
+  // Give the download a moment to start before releasing the Blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Read the records back out of a JSON array or NDJSON export
+ *
+ * @param text - File contents
+ * @returns Parsed records, and the number of NDJSON lines that could not be parsed
+ */
+export const parseExportFile = (text: string): { records: unknown[]; invalidLines: number } => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error('Expected a JSON array');
+    return { records: parsed, invalidLines: 0 };
+  }
+
+  const records: unknown[] = [];
+  let invalidLines = 0;
+  trimmed.split(/\r?\n/).forEach((line) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      invalidLines++;
+    }
+  });
+  if (records.length === 0) throw new Error('No JSON or NDJSON records found');
+
+  return { records, invalidLines };
+};
@@ -0,0 +1,54 @@
+import { GrpcServiceInfo } from '../types/api';
+
+// Canonical gRPC status code names
+export const GRPC_STATUS_CODES: Record<number, string> = {
+  0: 'OK',
+  1: 'CANCELLED',
+  2: 'UNKNOWN',
+  3: 'INVALID_ARGUMENT',
+  4: 'DEADLINE_EXCEEDED',
+  5: 'NOT_FOUND',
+  6: 'ALREADY_EXISTS',
+  7: 'PERMISSION_DENIED',
+  8: 'RESOURCE_EXHAUSTED',
+  9: 'FAILED_PRECONDITION',
+  10: 'ABORTED',
+  11: 'OUT_OF_RANGE',
+  12: 'UNIMPLEMENTED',
+  13: 'INTERNAL',
+  14: 'UNAVAILABLE',
+  15: 'DATA_LOSS',
+  16: 'UNAUTHENTICATED',
+};
+
+/**
+ * Get the display name for a gRPC status code
+ */
+export const getGrpcStatusName = (code: number): string =>
+  GRPC_STATUS_CODES[code] ?? `UNKNOWN_STATUS_${code}`;
+
+/**
+ * Build the full gRPC path for a method, e.g. /package.Service/Method
+ */
+export const getMethodPath = (servicePackage: string, serviceName: string, method: string) =>
+  `/${servicePackage}.${serviceName}/${method}`;
+
+/**
+ * Whether a method is being served, i.e. neither it nor its service has been disabled
+ */
+export const isMethodEnabled = (service: GrpcServiceInfo, method: string): boolean =>
+  !service.disabled && !service.disabledMethods?.includes(method);
+
+/**
+ * Copy of a service with it, or one of its methods, enabled or disabled
+ */
+export const withServingState = (
+  service: GrpcServiceInfo,
+  enabled: boolean,
+  method?: string,
+): GrpcServiceInfo => {
+  if (!method) return { ...service, disabled: !enabled };
+
+  const disabledMethods = (service.disabledMethods ?? []).filter((m) => m !== method);
+  return { ...service, disabledMethods: enabled ? disabledMethods : [...disabledMethods, method] };
+};
@@ -0,0 +1,73 @@
+import { StatsData } from '../types/api';
+import { HealthThresholds } from './settings';
+import { calculateSuccessRate } from './metrics';
+
+export type HealthLevel = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface HealthStatus {
+  overall: HealthLevel;
+  successRate: HealthLevel;
+  latency: HealthLevel;
+  successRateValue: number;
+  p95: number;
+  p95Estimated: boolean; // true when the backend did not report percentiles
+  issues: string[];
+}
+
+export const HEALTH_COLORS: Record<HealthLevel, string> = {
+  healthy: '#3f8600',
+  degraded: '#faad14',
+  unhealthy: '#cf1322',
+};
+
+export const HEALTH_LABELS: Record<HealthLevel, string> = {
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  unhealthy: 'Unhealthy',
+};
+
+const LEVEL_ORDER: HealthLevel[] = ['healthy', 'degraded', 'unhealthy'];
+
+/**
+ * Grade a success rate (percent) against the configured thresholds
+ */
+export const gradeSuccessRate = (rate: number, thresholds: HealthThresholds): HealthLevel => {
+  if (rate > thresholds.successRate.healthy) return 'healthy';
+  if (rate > thresholds.successRate.degraded) return 'degraded';
+  return 'unhealthy';
+};
+
+/**
+ * Grade a latency (ms) against the configured p95 thresholds
+ */
+export const gradeLatency = (latencyMs: number, thresholds: HealthThresholds): HealthLevel => {
+  if (latencyMs < thresholds.p95.healthy) return 'healthy';
+  if (latencyMs < thresholds.p95.degraded) return 'degraded';
+  return 'unhealthy';
+};
+
+/**
+ * Grade overall health from success rate and p95 latency
+ *
+ * Falls back to the average response time when the backend does not report percentiles.
+ */
+export const getHealthStatus = (stats: StatsData, thresholds: HealthThresholds): HealthStatus => {
+  const successRateValue = calculateSuccessRate(stats) ?? 100;
+  const p95Estimated = !stats.latency;
+  const p95 = stats.latency?.p95 ?? stats.avgResponseTime;
+
+  const successRate = gradeSuccessRate(successRateValue, thresholds);
+  const latency = gradeLatency(p95, thresholds);
+  const overall =
+    LEVEL_ORDER[Math.max(LEVEL_ORDER.indexOf(successRate), LEVEL_ORDER.indexOf(latency))]!;
+
+  const issues: string[] = [];
+  if (successRate !== 'healthy') {
+    issues.push(`Low success rate (${successRateValue.toFixed(1)}%)`);
+  }
+  if (latency !== 'healthy') {
+    issues.push(`High ${p95Estimated ? 'average' : 'p95'} response time (${p95.toFixed(1)}ms)`);
+  }
+
+  return { overall, successRate, latency, successRateValue, p95, p95Estimated, issues };
+};
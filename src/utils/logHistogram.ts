@@ -0,0 +1,80 @@
+import { LogEntry } from '../types/api';
+
+// Bucket sizes to pick from, smallest first
+const BUCKET_SIZES_MS = [
+  1000,
+  5 * 1000,
+  10 * 1000,
+  30 * 1000,
+  60 * 1000,
+  5 * 60 * 1000,
+  10 * 60 * 1000,
+  30 * 60 * 1000,
+  60 * 60 * 1000,
+  3 * 60 * 60 * 1000,
+  6 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+  24 * 60 * 60 * 1000,
+];
+
+/**
+ * Log counts by level over a single time bucket
+ */
+export interface LogHistogramBucket {
+  timestamp: number; // bucket start (epoch ms)
+  counts: Record<string, number>;
+}
+
+/**
+ * Smallest bucket size that covers a span in at most `maxBuckets` buckets
+ */
+export const chooseBucketMs = (spanMs: number, maxBuckets: number = 60): number =>
+  BUCKET_SIZES_MS.find((size) => spanMs / size <= maxBuckets) ??
+  BUCKET_SIZES_MS[BUCKET_SIZES_MS.length - 1]!;
+
+/**
+ * Count logs per time bucket and level
+ *
+ * @param logs - Entries to count, in any order
+ * @param levels - Levels to count; other levels are ignored
+ * @param bounds - Window to cover; open ends fall back to the oldest and newest entries
+ * @param now - End of the window when neither `bounds.to` nor any entry sets it
+ */
+export const buildLogHistogram = (
+  logs: LogEntry[],
+  levels: string[],
+  bounds: { from?: string; to?: string } = {},
+  now: number = Date.now(),
+): { bucketMs: number; buckets: LogHistogramBucket[] } => {
+  const times = logs.map((log) => new Date(log.timestamp).getTime());
+  const validTimes = times.filter((time) => !Number.isNaN(time));
+  if (validTimes.length === 0 && !bounds.from) {
+    return { bucketMs: BUCKET_SIZES_MS[0]!, buckets: [] };
+  }
+
+  const from = bounds.from
+    ? new Date(bounds.from).getTime()
+    : validTimes.reduce((min, time) => Math.min(min, time), Infinity);
+  const to = bounds.to
+    ? new Date(bounds.to).getTime()
+    : bounds.from
+      ? now
+      : validTimes.reduce((max, time) => Math.max(max, time), -Infinity);
+
+  const bucketMs = chooseBucketMs(Math.max(to - from, 1));
+  const start = Math.floor(from / bucketMs) * bucketMs;
+  const bucketCount = Math.floor(to / bucketMs) - Math.floor(from / bucketMs) + 1;
+
+  const buckets: LogHistogramBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    timestamp: start + i * bucketMs,
+    counts: Object.fromEntries(levels.map((level) => [level, 0])),
+  }));
+
+  logs.forEach((log, i) => {
+    const bucket = buckets[Math.floor((times[i]! - start) / bucketMs)];
+    if (!bucket || bucket.counts[log.level] === undefined) return;
+    bucket.counts[log.level]!++;
+  });
+
+  return { bucketMs, buckets };
+};
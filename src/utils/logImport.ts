@@ -0,0 +1,92 @@
+import { LogEntry, LogLevel } from '../types/api';
+import { parseExportFile } from './export';
+import { ALL_LOG_LEVELS } from './urlState';
+
+/**
+ * Logs loaded from a file rather than the backend
+ */
+export interface LogSnapshot {
+  fileName: string;
+  importedAt: string; // ISO date string
+  logs: LogEntry[];
+  // Records that were not valid log entries
+  skipped: number;
+}
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/**
+ * A parsed record as a log entry, or null when it lacks a timestamp, level or message
+ *
+ * @param record - Parsed JSON value
+ * @param index - Position in the file, used for an ID when the export left it out
+ */
+const toLogEntry = (record: unknown, index: number): LogEntry | null => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) return null;
+  const fields = record as Record<string, unknown>;
+
+  const level = typeof fields.level === 'string' ? fields.level.toLowerCase() : '';
+  if (
+    typeof fields.timestamp !== 'string' ||
+    Number.isNaN(new Date(fields.timestamp).getTime()) ||
+    !ALL_LOG_LEVELS.includes(level as LogLevel) ||
+    typeof fields.message !== 'string'
+  ) {
+    return null;
+  }
+
+  const entry: LogEntry = {
+    id: optionalString(fields.id) ?? `imported-${index}`,
+    timestamp: fields.timestamp,
+    level: level as LogLevel,
+    message: fields.message,
+    context: optionalString(fields.context) ?? '',
+  };
+
+  const service = optionalString(fields.service);
+  const method = optionalString(fields.method);
+  const traceId = optionalString(fields.traceId);
+  const stack = optionalString(fields.stack);
+  const statusCode = optionalNumber(fields.statusCode);
+  const durationMs = optionalNumber(fields.durationMs);
+  if (service) entry.service = service;
+  if (method) entry.method = method;
+  if (traceId) entry.traceId = traceId;
+  if (stack) entry.stack = stack;
+  if (statusCode !== undefined) entry.statusCode = statusCode;
+  if (durationMs !== undefined) entry.durationMs = durationMs;
+  if (fields.data && typeof fields.data === 'object' && !Array.isArray(fields.data)) {
+    entry.data = fields.data as Record<string, unknown>;
+  }
+
+  return entry;
+};
+
+/**
+ * Load a JSON or NDJSON log export as a snapshot, newest entries first
+ *
+ * @param fileName - Name of the imported file, shown alongside the snapshot
+ * @param text - File contents
+ */
+export const parseLogSnapshot = (fileName: string, text: string): LogSnapshot => {
+  const { records, invalidLines } = parseExportFile(text);
+  const logs = records
+    .map(toLogEntry)
+    .filter((entry): entry is LogEntry => entry !== null)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  if (logs.length === 0) {
+    throw new Error('The file does not contain any log entries');
+  }
+
+  return {
+    fileName,
+    importedAt: new Date().toISOString(),
+    logs,
+    skipped: records.length - logs.length + invalidLines,
+  };
+};
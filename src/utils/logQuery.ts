@@ -0,0 +1,455 @@
+import { GrpcServiceInfo, LogEntry } from '../types/api';
+import { GRPC_STATUS_CODES } from './grpc';
+
+export type LogQueryField =
+  | 'level'
+  | 'service'
+  | 'method'
+  | 'context'
+  | 'traceId'
+  | 'message'
+  | 'stack'
+  | 'status'
+  | 'duration'
+  | 'data'
+  | 'since'
+  | 'until';
+
+export type DurationOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export type LogQueryNode =
+  | { type: 'and'; children: LogQueryNode[] }
+  | { type: 'or'; children: LogQueryNode[] }
+  | { type: 'not'; child: LogQueryNode }
+  // A null field matches the text of any searchable field
+  | {
+      type: 'match';
+      field: 'level' | 'service' | 'method' | 'context' | 'traceId' | 'message' | 'stack' | null;
+      value: string;
+      pattern?: RegExp;
+    }
+  // An empty path matches anywhere in the structured data
+  | { type: 'data'; path: string[]; value: string; pattern?: RegExp }
+  | { type: 'status'; value: string; code: number }
+  | { type: 'duration'; value: string; operator: DurationOperator; ms: number }
+  // Relative times are resolved against the clock when matching, so live entries keep up
+  | {
+      type: 'time';
+      field: 'since' | 'until';
+      value: string;
+      relativeMs?: number;
+      timestamp?: number;
+    };
+
+export interface ParsedLogQuery {
+  node: LogQueryNode | null;
+  error: string | null;
+}
+
+export interface LogQuerySuggestion {
+  value: string; // the full query with the suggestion applied
+  label: string;
+}
+
+export const LOG_QUERY_FIELDS: Record<LogQueryField, string> = {
+  level: 'Log level, e.g. level:error',
+  service: 'Service name',
+  method: 'Method name',
+  context: 'Logger context',
+  traceId: 'Trace ID',
+  message: 'Message text',
+  stack: 'Stack trace text',
+  status: 'gRPC status code or name, e.g. status:UNAVAILABLE',
+  duration: 'Duration in ms, e.g. duration:>500 or duration:<=2s',
+  data: 'Structured data, e.g. data.userId:42',
+  since: 'Newer than a duration or ISO time, e.g. since:15m',
+  until: 'Older than a duration or ISO time',
+};
+
+const LEVELS = ['error', 'warn', 'info', 'debug', 'verbose'];
+
+const TIME_SUGGESTIONS = ['5m', '15m', '1h', '6h', '24h', '7d'];
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | {
+      kind: 'term';
+      field: LogQueryField | null;
+      path: string[];
+      value: string;
+      regex: boolean;
+      flags: string;
+    };
+
+// Field names are matched case-insensitively, so `traceid:` works too
+const FIELD_NAMES = new Map(
+  (Object.keys(LOG_QUERY_FIELDS) as LogQueryField[]).map((field) => [field.toLowerCase(), field]),
+);
+
+/**
+ * Read a quoted phrase or /regex/ starting at `start`, returning the text and end index
+ */
+const readDelimited = (query: string, start: number, delimiter: string) => {
+  let value = '';
+  let i = start + 1;
+  while (i < query.length && query[i] !== delimiter) {
+    // Keep escapes in regexes, where they mean something to the RegExp itself
+    if (query[i] === '\\' && i + 1 < query.length) {
+      value += delimiter === '/' && query[i + 1] !== '/' ? query.slice(i, i + 2) : query[i + 1];
+      i += 2;
+    } else {
+      value += query[i++];
+    }
+  }
+  if (i >= query.length) {
+    throw new Error(delimiter === '"' ? 'Unterminated quote' : 'Unterminated regular expression');
+  }
+  return { value, end: i + 1 };
+};
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen' });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else {
+      let field: LogQueryField | null = null;
+      let path: string[] = [];
+      const prefix = /^([a-zA-Z]+)((?:\.[\w-]+)*):/.exec(query.slice(i));
+      if (prefix) {
+        field = FIELD_NAMES.get(prefix[1].toLowerCase()) ?? null;
+        if (!field) throw new Error(`Unknown field "${prefix[1]}"`);
+        path = prefix[2].split('.').filter(Boolean);
+        if (path.length > 0 && field !== 'data') {
+          throw new Error(`Only data fields take a path, not "${prefix[1]}${prefix[2]}"`);
+        }
+        i += prefix[0].length;
+      }
+
+      // A lone slash, as in a path, is plain text rather than the start of a regex
+      if (query[i] === '"' || (query[i] === '/' && query.indexOf('/', i + 1) > i)) {
+        const delimiter = query[i];
+        const { value, end } = readDelimited(query, i, delimiter);
+        const flags = delimiter === '/' ? (/^[gimsuy]*/.exec(query.slice(end))?.[0] ?? '') : '';
+        tokens.push({ kind: 'term', field, path, value, regex: delimiter === '/', flags });
+        i = end + flags.length;
+      } else {
+        const word = /^[^\s()]*/.exec(query.slice(i))?.[0] ?? '';
+        i += word.length;
+        if (!field && (word === 'AND' || word === 'OR' || word === 'NOT')) {
+          tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+        } else if (!word && field) {
+          throw new Error(`Missing value for ${field}:`);
+        } else {
+          tokens.push({ kind: 'term', field, path, value: word, regex: false, flags: '' });
+        }
+      }
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a duration such as 15m, or an ISO date, for since:/until:
+ */
+const parseTime = (field: 'since' | 'until', value: string): LogQueryNode => {
+  const duration = /^(\d+)([smhdw])$/.exec(value);
+  if (duration) {
+    return {
+      type: 'time',
+      field,
+      value,
+      relativeMs: Number(duration[1]) * DURATION_UNITS[duration[2]],
+    };
+  }
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) throw new Error(`Invalid time "${value}" for ${field}:`);
+  return { type: 'time', field, value, timestamp };
+};
+
+/**
+ * Parse a status code given as a number or a name such as UNAVAILABLE
+ */
+const parseStatus = (value: string): LogQueryNode => {
+  const code = /^\d+$/.test(value)
+    ? Number(value)
+    : Number(
+        Object.entries(GRPC_STATUS_CODES).find(([, name]) => name === value.toUpperCase())?.[0] ??
+          NaN,
+      );
+  if (Number.isNaN(code)) throw new Error(`Unknown status "${value}"`);
+  return { type: 'status', value, code };
+};
+
+/**
+ * Parse a comparison such as >500, <=2s or 150ms
+ */
+const parseDuration = (value: string): LogQueryNode => {
+  const match = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)(ms|s)?$/.exec(value);
+  if (!match) throw new Error(`Invalid duration "${value}"`);
+  const ms = Number(match[2]) * (match[3] === 's' ? 1000 : 1);
+  return { type: 'duration', value, operator: (match[1] as DurationOperator) ?? '=', ms };
+};
+
+const buildPattern = (token: Extract<Token, { kind: 'term' }>) => {
+  try {
+    return new RegExp(token.value, token.flags.replace('g', ''));
+  } catch {
+    throw new Error(`Invalid regular expression /${token.value}/`);
+  }
+};
+
+const buildTerm = (token: Extract<Token, { kind: 'term' }>): LogQueryNode => {
+  const { field, value } = token;
+  if (field === 'since' || field === 'until') return parseTime(field, value);
+  if (field === 'status') return parseStatus(value);
+  if (field === 'duration') return parseDuration(value);
+
+  const pattern = token.regex ? { pattern: buildPattern(token) } : {};
+  if (field === 'data') return { type: 'data', path: token.path, value, ...pattern };
+  return { type: 'match', field, value, ...pattern };
+};
+
+/**
+ * Recursive descent over: or := and (OR and)*, and := unary (AND? unary)*,
+ * unary := (NOT | -) unary | ( or ) | term
+ */
+const parseTokens = (tokens: Token[]): LogQueryNode => {
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseOr = (): LogQueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): LogQueryNode => {
+    const children = [parseUnary()];
+    for (let next = peek(); next && next.kind !== 'or' && next.kind !== 'rparen'; next = peek()) {
+      if (next.kind === 'and') position++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): LogQueryNode => {
+    const token = tokens[position++];
+    if (!token) throw new Error('Unexpected end of query');
+
+    switch (token.kind) {
+      case 'not':
+        return { type: 'not', child: parseUnary() };
+      case 'lparen': {
+        const node = parseOr();
+        if (tokens[position++]?.kind !== 'rparen') throw new Error('Missing closing parenthesis');
+        return node;
+      }
+      case 'term':
+        return buildTerm(token);
+      default:
+        throw new Error(`Unexpected ${token.kind === 'rparen' ? ')' : token.kind.toUpperCase()}`);
+    }
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) throw new Error('Unexpected )');
+  return node;
+};
+
+/**
+ * Parse a log query such as `level:error service:UserService "timeout" -context:Health`
+ */
+export const parseLogQuery = (query: string): ParsedLogQuery => {
+  if (!query.trim()) return { node: null, error: null };
+  try {
+    return { node: parseTokens(tokenize(query)), error: null };
+  } catch (error) {
+    return { node: null, error: error instanceof Error ? error.message : 'Invalid query' };
+  }
+};
+
+const matchesText = (text: string | undefined, value: string, pattern?: RegExp) => {
+  if (text === undefined) return false;
+  return pattern ? pattern.test(text) : text.toLowerCase().includes(value.toLowerCase());
+};
+
+/**
+ * Value at a dotted path in a log's structured data, as text
+ */
+const getDataText = (data: Record<string, unknown> | undefined, path: string[]) => {
+  const value = path.reduce<unknown>(
+    (current, key) =>
+      current !== null && typeof current === 'object'
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    data,
+  );
+  if (value === undefined) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const compareDuration = (actual: number, operator: DurationOperator, expected: number) => {
+  switch (operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+/**
+ * Whether a log entry satisfies a parsed query; a null query matches everything
+ */
+export const matchesLogQuery = (
+  node: LogQueryNode | null,
+  log: LogEntry,
+  now: number = Date.now(),
+): boolean => {
+  if (!node) return true;
+
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesLogQuery(child, log, now));
+    case 'or':
+      return node.children.some((child) => matchesLogQuery(child, log, now));
+    case 'not':
+      return !matchesLogQuery(node.child, log, now);
+    case 'time': {
+      const threshold = node.relativeMs !== undefined ? now - node.relativeMs : node.timestamp!;
+      const time = new Date(log.timestamp).getTime();
+      return node.field === 'since' ? time >= threshold : time <= threshold;
+    }
+    case 'match':
+      if (node.field === 'level') {
+        return node.pattern
+          ? node.pattern.test(log.level)
+          : log.level.toLowerCase() === node.value.toLowerCase();
+      }
+      if (node.field) return matchesText(log[node.field], node.value, node.pattern);
+      return [log.message, log.context, log.service, log.method, log.traceId, log.stack].some(
+        (text) => matchesText(text, node.value, node.pattern),
+      );
+    case 'data':
+      return matchesText(getDataText(log.data, node.path), node.value, node.pattern);
+    case 'status':
+      return log.statusCode === node.code;
+    case 'duration':
+      return (
+        log.durationMs !== undefined && compareDuration(log.durationMs, node.operator, node.ms)
+      );
+  }
+};
+
+const quoteIfNeeded = (value: string) => (/[\s()"]/.test(value) ? `"${value}"` : value);
+
+/**
+ * Completions for the term being typed at the end of a query
+ */
+export const getLogQuerySuggestions = (
+  query: string,
+  services: GrpcServiceInfo[],
+  dataKeys: string[] = [],
+): LogQuerySuggestion[] => {
+  // Nothing to complete inside an open phrase or regex
+  if ((query.match(/"/g)?.length ?? 0) % 2 === 1) return [];
+
+  const tokenStart = query.search(/[^\s(]*$/);
+  const head = query.slice(0, tokenStart);
+  const current = query.slice(tokenStart);
+  const negation = current.startsWith('-') ? '-' : '';
+  const partial = current.slice(negation.length);
+  const separator = partial.indexOf(':');
+
+  const complete = (completion: string, trailing: string) => ({
+    value: `${head}${negation}${completion}${trailing}`,
+    label: `${negation}${completion}`,
+  });
+
+  if (separator < 0) {
+    const fields = [
+      ...(Object.keys(LOG_QUERY_FIELDS) as LogQueryField[]),
+      ...dataKeys.map((key) => `data.${key}`),
+    ]
+      .filter((field) => field.toLowerCase().startsWith(partial.toLowerCase()))
+      .slice(0, 20)
+      .map((field) => complete(`${field}:`, ''));
+    const operators = partial
+      ? ['AND', 'OR', 'NOT'].filter((op) => op.startsWith(partial) && op !== partial)
+      : [];
+    return [...fields, ...operators.map((op) => complete(op, ' '))];
+  }
+
+  const field = FIELD_NAMES.get(partial.slice(0, separator).toLowerCase());
+  const typed = partial
+    .slice(separator + 1)
+    .replace(/^"/, '')
+    .toLowerCase();
+  let candidates: string[] = [];
+
+  if (field === 'level') {
+    candidates = LEVELS;
+  } else if (field === 'service') {
+    candidates = services.map((service) => service.name);
+  } else if (field === 'method') {
+    // Narrow methods to the service already named in the query, if any
+    const serviceName = /(?:^|\s)service:"?([^\s"()]+)/.exec(head)?.[1];
+    const scoped = services.filter(
+      (service) => !serviceName || matchesText(service.name, serviceName),
+    );
+    candidates = Array.from(new Set(scoped.flatMap((service) => service.methods)));
+  } else if (field === 'status') {
+    candidates = Object.values(GRPC_STATUS_CODES);
+  } else if (field === 'since' || field === 'until') {
+    candidates = TIME_SUGGESTIONS;
+  }
+
+  return candidates
+    .filter((value) => value.toLowerCase().startsWith(typed) && value.toLowerCase() !== typed)
+    .slice(0, 20)
+    .map((value) => complete(`${partial.slice(0, separator + 1)}${quoteIfNeeded(value)}`, ' '));
+};
+
+/**
+ * Dotted paths of the structured data fields seen in a sample of logs, for autocomplete
+ */
+export const collectDataKeys = (logs: LogEntry[], maxDepth: number = 2): string[] => {
+  const keys = new Set<string>();
+  const visit = (value: unknown, prefix: string, depth: number) => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return;
+    Object.entries(value).forEach(([key, child]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      keys.add(path);
+      if (depth < maxDepth) visit(child, path, depth + 1);
+    });
+  };
+  logs.forEach((log) => visit(log.data, '', 1));
+  return Array.from(keys).sort();
+};
@@ -0,0 +1,164 @@
+import { MethodStats } from '../types/api';
+import { StatsSnapshot } from '../services/statsHistory';
+
+export type TimeWindowKey = '5m' | '1h' | '24h';
+
+// Selectable chart windows and the bucket size used for each
+export const TIME_WINDOWS: Record<TimeWindowKey, { label: string; ms: number; bucketMs: number }> =
+  {
+    '5m': { label: 'Last 5 minutes', ms: 5 * 60 * 1000, bucketMs: 10 * 1000 },
+    '1h': { label: 'Last hour', ms: 60 * 60 * 1000, bucketMs: 60 * 1000 },
+    '24h': { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000, bucketMs: 30 * 60 * 1000 },
+  };
+
+/**
+ * Request metrics aggregated over a single time bucket
+ */
+export interface MetricPoint {
+  timestamp: number; // bucket start (epoch ms)
+  requests: number;
+  successful: number;
+  failed: number;
+  avgResponseTime: number | null;
+}
+
+// Snapshots further apart than this straddle a period when nothing was recorded (tab closed,
+// backend down); twice the slowest refresh interval, so polling alone never reaches it
+const MAX_SNAPSHOT_GAP = 10 * 60 * 1000;
+
+/**
+ * Difference between two cumulative counters, treating a decrease as a counter reset
+ */
+const counterDelta = (current: number, previous: number): number =>
+  current >= previous ? current - previous : current;
+
+/**
+ * Turn cumulative stats snapshots into per-bucket request metrics
+ *
+ * @param snapshots - Snapshots ordered by timestamp
+ * @param windowMs - Length of the window to chart
+ * @param bucketMs - Size of each bucket
+ * @param now - End of the window (defaults to now)
+ */
+export const buildMetricSeries = (
+  snapshots: StatsSnapshot[],
+  windowMs: number,
+  bucketMs: number,
+  now: number = Date.now(),
+): MetricPoint[] => {
+  const end = Math.ceil(now / bucketMs) * bucketMs;
+  const start = end - windowMs;
+  const bucketCount = Math.ceil(windowMs / bucketMs);
+
+  const points: MetricPoint[] = Array.from({ length: bucketCount }, (_, i) => ({
+    timestamp: start + i * bucketMs,
+    requests: 0,
+    successful: 0,
+    failed: 0,
+    avgResponseTime: null,
+  }));
+  const latencySamples: number[][] = points.map(() => []);
+
+  snapshots.forEach((snapshot, i) => {
+    if (snapshot.timestamp < start || snapshot.timestamp >= end) return;
+    const index = Math.floor((snapshot.timestamp - start) / bucketMs);
+    const point = points[index];
+    if (!point) return;
+
+    latencySamples[index]!.push(snapshot.avgResponseTime);
+
+    // The first snapshot has nothing to diff against, and requests made during a recording gap
+    // can't be placed in time, so they are left out rather than shown as a spike
+    const previous = snapshots[i - 1];
+    if (!previous || snapshot.timestamp - previous.timestamp > MAX_SNAPSHOT_GAP) return;
+
+    point.requests += counterDelta(snapshot.totalRequests, previous.totalRequests);
+    point.successful += counterDelta(snapshot.successfulRequests, previous.successfulRequests);
+    point.failed += counterDelta(snapshot.failedRequests, previous.failedRequests);
+  });
+
+  points.forEach((point, i) => {
+    const samples = latencySamples[i]!;
+    if (samples.length > 0) {
+      point.avgResponseTime = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+    }
+  });
+
+  return points;
+};
+
+/**
+ * Aggregated stats for a service, with its methods as child rows
+ */
+export interface ServiceStatsRow {
+  key: string;
+  name: string;
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  avgResponseTime: number;
+  successRate: number | null;
+  p95: number | null; // only reported per method
+  children?: ServiceStatsRow[];
+}
+
+/**
+ * Success rate as a percentage, or null when there were no requests
+ */
+export const calculateSuccessRate = (stats: {
+  totalRequests: number;
+  successfulRequests: number;
+}): number | null =>
+  stats.totalRequests > 0 ? (stats.successfulRequests / stats.totalRequests) * 100 : null;
+
+/**
+ * Build the per-method stats key used by the backend
+ */
+export const methodStatsKey = (service: string, method: string) => `${service}/${method}`;
+
+/**
+ * Group a per-method stats map by service, weighting averages by request count
+ *
+ * @param methods - Per-method stats keyed by `${service}/${method}`
+ */
+export const groupStatsByService = (methods: Record<string, MethodStats>): ServiceStatsRow[] => {
+  const services = new Map<string, MethodStats[]>();
+  Object.values(methods).forEach((stats) => {
+    services.set(stats.service, [...(services.get(stats.service) ?? []), stats]);
+  });
+
+  return Array.from(services.entries()).map(([service, serviceMethods]) => {
+    const totalRequests = serviceMethods.reduce((sum, m) => sum + m.totalRequests, 0);
+    const successfulRequests = serviceMethods.reduce((sum, m) => sum + m.successfulRequests, 0);
+    const failedRequests = serviceMethods.reduce((sum, m) => sum + m.failedRequests, 0);
+    const weightedResponseTime = serviceMethods.reduce(
+      (sum, m) => sum + m.avgResponseTime * m.totalRequests,
+      0,
+    );
+
+    return {
+      key: service,
+      name: service,
+      totalRequests,
+      successfulRequests,
+      failedRequests,
+      avgResponseTime: totalRequests > 0 ? weightedResponseTime / totalRequests : 0,
+      successRate: calculateSuccessRate({ totalRequests, successfulRequests }),
+      // Percentiles cannot be combined across methods; show the worst method's p95
+      p95: serviceMethods.reduce<number | null>(
+        (worst, m) => (m.latency ? Math.max(worst ?? 0, m.latency.p95) : worst),
+        null,
+      ),
+      children: serviceMethods.map((m) => ({
+        key: methodStatsKey(m.service, m.method),
+        name: m.method,
+        totalRequests: m.totalRequests,
+        successfulRequests: m.successfulRequests,
+        failedRequests: m.failedRequests,
+        avgResponseTime: m.avgResponseTime,
+        successRate: calculateSuccessRate(m),
+        p95: m.latency?.p95 ?? null,
+      })),
+    };
+  });
+};
@@ -0,0 +1,46 @@
+import { CurrentUser, Permission, Role } from '../types/api';
+
+export const ALL_PERMISSIONS: Permission[] = [
+  'data:export',
+  'methods:invoke',
+  'connections:manage',
+  'services:manage',
+  'settings:manage',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  operator: ['data:export', 'methods:invoke'],
+  admin: ALL_PERMISSIONS,
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'data:export': 'export data',
+  'methods:invoke': 'invoke methods',
+  'connections:manage': 'manage connections',
+  'services:manage': 'manage services',
+  'settings:manage': 'manage settings',
+};
+
+/**
+ * Permissions granted to a user by their roles and any explicit grants
+ */
+export const resolvePermissions = (user: CurrentUser): Set<Permission> =>
+  new Set([
+    ...user.roles.flatMap((role) => ROLE_PERMISSIONS[role] ?? []),
+    ...(user.permissions ?? []),
+  ]);
+
+/**
+ * Lowest role that grants a permission, for "requires ..." hints
+ */
+export const getRequiredRole = (permission: Permission): Role =>
+  (Object.keys(ROLE_PERMISSIONS) as Role[]).find((role) =>
+    ROLE_PERMISSIONS[role].includes(permission),
+  ) ?? 'admin';
+
+/**
+ * Tooltip text explaining why a control is unavailable
+ */
+export const getPermissionHint = (permission: Permission): string =>
+  `Requires the ${getRequiredRole(permission)} role to ${PERMISSION_LABELS[permission]}`;
@@ -0,0 +1,95 @@
+import { FieldDescriptor, MethodDescriptor, ServiceSchema } from '../types/api';
+
+export type StreamingKind = 'unary' | 'server' | 'client' | 'bidi';
+
+export const STREAMING_KINDS: Record<StreamingKind, { label: string; color: string }> = {
+  unary: { label: 'Unary', color: 'default' },
+  server: { label: 'Server streaming', color: 'cyan' },
+  client: { label: 'Client streaming', color: 'purple' },
+  bidi: { label: 'Bidirectional', color: 'magenta' },
+};
+
+/**
+ * Classify a method by which side streams
+ */
+export const getStreamingKind = (method: MethodDescriptor): StreamingKind => {
+  if (method.clientStreaming && method.serverStreaming) return 'bidi';
+  if (method.clientStreaming) return 'client';
+  if (method.serverStreaming) return 'server';
+  return 'unary';
+};
+
+/**
+ * Strip the package from a fully-qualified type name
+ */
+export const shortTypeName = (fullName: string) => fullName.split('.').pop() ?? fullName;
+
+/**
+ * Human-readable type of a field, e.g. "repeated string" or "map<string, Foo>"
+ */
+export const formatFieldType = (field: FieldDescriptor): string => {
+  const valueType = field.typeName ? shortTypeName(field.typeName) : field.type;
+  if (field.mapKeyType) return `map<${field.mapKeyType}, ${valueType}>`;
+  return field.label === 'repeated' ? `repeated ${valueType}` : valueType;
+};
+
+const SCALAR_DEFAULTS: Record<string, unknown> = {
+  bool: false,
+  string: '',
+  bytes: '',
+  double: 0,
+  float: 0,
+  int32: 0,
+  uint32: 0,
+  sint32: 0,
+  fixed32: 0,
+  sfixed32: 0,
+  // 64-bit integers are serialized as strings in proto3 JSON
+  int64: '0',
+  uint64: '0',
+  sint64: '0',
+  fixed64: '0',
+  sfixed64: '0',
+};
+
+/**
+ * Build a JSON request skeleton for a message, filling each field with its default value
+ *
+ * @param schema - Schema containing the message and its dependencies
+ * @param typeName - Fully-qualified message name
+ * @param seen - Messages already being expanded, used to stop on recursive types
+ */
+export const buildMessageTemplate = (
+  schema: ServiceSchema,
+  typeName: string,
+  seen: Set<string> = new Set(),
+): Record<string, unknown> => {
+  const message = schema.messages[typeName];
+  if (!message || seen.has(typeName)) return {};
+
+  const nextSeen = new Set(seen).add(typeName);
+  const template: Record<string, unknown> = {};
+  const filledOneofs = new Set<string>();
+
+  message.fields.forEach((field) => {
+    // Only populate the first member of each oneof
+    if (field.oneof) {
+      if (filledOneofs.has(field.oneof)) return;
+      filledOneofs.add(field.oneof);
+    }
+
+    if (field.mapKeyType) {
+      template[field.name] = {};
+    } else if (field.label === 'repeated') {
+      template[field.name] = [];
+    } else if (field.type === 'message' && field.typeName) {
+      template[field.name] = buildMessageTemplate(schema, field.typeName, nextSeen);
+    } else if (field.type === 'enum' && field.typeName) {
+      template[field.name] = schema.enums[field.typeName]?.values[0]?.name ?? 0;
+    } else {
+      template[field.name] = SCALAR_DEFAULTS[field.type] ?? null;
+    }
+  });
+
+  return template;
+};
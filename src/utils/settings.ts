@@ -0,0 +1,60 @@
+import { LogLevel } from '../types/api';
+
+export const SETTINGS_STORAGE_KEY = 'grpcDashboardSettings';
+
+/**
+ * Limits used to grade overall system health
+ */
+export interface HealthThresholds {
+  successRate: { healthy: number; degraded: number }; // percent, graded when above
+  p95: { healthy: number; degraded: number }; // ms, graded when below
+}
+
+export interface DashboardSettings {
+  logLevel: LogLevel;
+  refreshInterval: number;
+  darkMode: boolean;
+  healthThresholds: HealthThresholds;
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  successRate: { healthy: 95, degraded: 80 },
+  p95: { healthy: 200, degraded: 1000 },
+};
+
+export const DEFAULT_SETTINGS: DashboardSettings = {
+  logLevel: 'info',
+  refreshInterval: 5,
+  darkMode: false,
+  healthThresholds: DEFAULT_HEALTH_THRESHOLDS,
+};
+
+/**
+ * Merge partially saved settings over the defaults
+ */
+export const mergeSettings = (saved: Partial<DashboardSettings>): DashboardSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...saved,
+  healthThresholds: {
+    successRate: {
+      ...DEFAULT_HEALTH_THRESHOLDS.successRate,
+      ...saved.healthThresholds?.successRate,
+    },
+    p95: { ...DEFAULT_HEALTH_THRESHOLDS.p95, ...saved.healthThresholds?.p95 },
+  },
+});
+
+/**
+ * Read saved settings from localStorage, filling in defaults for missing values
+ */
+export const getSettings = (): DashboardSettings => {
+  const savedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!savedSettings) return DEFAULT_SETTINGS;
+
+  try {
+    return mergeSettings(JSON.parse(savedSettings));
+  } catch (error) {
+    console.error('Failed to parse saved settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
@@ -0,0 +1,60 @@
+import { format } from 'date-fns';
+
+export type TimeRangePreset = '5m' | '15m' | '1h' | '24h' | '7d';
+
+/**
+ * A relative window ending now, or an absolute range between ISO timestamps
+ */
+export interface TimeRange {
+  preset?: TimeRangePreset;
+  from?: string;
+  to?: string;
+}
+
+export const TIME_RANGE_PRESETS: Record<TimeRangePreset, { label: string; ms: number }> = {
+  '5m': { label: 'Last 5 minutes', ms: 5 * 60 * 1000 },
+  '15m': { label: 'Last 15 minutes', ms: 15 * 60 * 1000 },
+  '1h': { label: 'Last hour', ms: 60 * 60 * 1000 },
+  '24h': { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  '7d': { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+};
+
+/**
+ * Absolute bounds of a range, with presets measured back from `now`
+ */
+export const resolveTimeRange = (
+  range: TimeRange | undefined,
+  now: number = Date.now(),
+): { from?: string; to?: string } => {
+  if (!range) return {};
+  if (range.preset) {
+    return { from: new Date(now - TIME_RANGE_PRESETS[range.preset].ms).toISOString() };
+  }
+
+  const bounds: { from?: string; to?: string } = {};
+  if (range.from) bounds.from = range.from;
+  if (range.to) bounds.to = range.to;
+  return bounds;
+};
+
+/**
+ * Whether an ISO timestamp falls inside a range; no range includes everything
+ */
+export const isInTimeRange = (
+  timestamp: string,
+  range: TimeRange | undefined,
+  now: number = Date.now(),
+): boolean => {
+  const { from, to } = resolveTimeRange(range, now);
+  const time = new Date(timestamp).getTime();
+  return (!from || time >= new Date(from).getTime()) && (!to || time <= new Date(to).getTime());
+};
+
+/**
+ * Short label for a range, e.g. "Last hour" or "Mar 04 10:00 - Mar 04 11:30"
+ */
+export const describeTimeRange = (range: TimeRange): string => {
+  if (range.preset) return TIME_RANGE_PRESETS[range.preset].label;
+  const formatBound = (iso?: string) => (iso ? format(new Date(iso), 'MMM dd HH:mm') : '...');
+  return `${formatBound(range.from)} - ${formatBound(range.to)}`;
+};
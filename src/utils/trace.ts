@@ -0,0 +1,78 @@
+import { LogEntry } from '../types/api';
+
+export interface TraceEntry extends LogEntry {
+  // Milliseconds since the first entry of the trace
+  offsetMs: number;
+}
+
+export interface TraceSpan {
+  key: string;
+  service?: string;
+  method?: string;
+  startMs: number;
+  endMs: number;
+  entries: TraceEntry[];
+  hasError: boolean;
+}
+
+export interface TraceSummary {
+  startTime: string | null; // ISO date string
+  durationMs: number;
+  entries: TraceEntry[];
+  spans: TraceSpan[];
+  services: string[];
+  errorCount: number;
+}
+
+/**
+ * Order a trace's log entries by timestamp and group them into per-service/method spans
+ */
+export const buildTrace = (logs: LogEntry[]): TraceSummary => {
+  const sorted = [...logs].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+  const start = sorted.length > 0 ? new Date(sorted[0].timestamp).getTime() : 0;
+
+  const entries: TraceEntry[] = sorted.map((log) => ({
+    ...log,
+    offsetMs: new Date(log.timestamp).getTime() - start,
+  }));
+
+  // Spans are ordered by their first entry, so the waterfall reads top to bottom
+  const spans = new Map<string, TraceSpan>();
+  for (const entry of entries) {
+    const key = `${entry.service ?? entry.context}/${entry.method ?? ''}`;
+    let span = spans.get(key);
+    if (!span) {
+      span = {
+        key,
+        startMs: entry.offsetMs,
+        endMs: entry.offsetMs,
+        entries: [],
+        hasError: false,
+      };
+      if (entry.service) span.service = entry.service;
+      if (entry.method) span.method = entry.method;
+      spans.set(key, span);
+    }
+    span.endMs = entry.offsetMs;
+    span.entries.push(entry);
+    span.hasError = span.hasError || entry.level === 'error';
+  }
+
+  const services = new Set(entries.map((entry) => entry.service).filter(Boolean) as string[]);
+
+  return {
+    startTime: sorted[0]?.timestamp ?? null,
+    durationMs: entries.length > 0 ? entries[entries.length - 1].offsetMs : 0,
+    entries,
+    spans: Array.from(spans.values()),
+    services: Array.from(services),
+    errorCount: entries.filter((entry) => entry.level === 'error').length,
+  };
+};
+
+/**
+ * Route path for the trace view of a trace ID
+ */
+export const getTracePath = (traceId: string): string => `/traces/${encodeURIComponent(traceId)}`;
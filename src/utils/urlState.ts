@@ -0,0 +1,136 @@
+import { LogLevel } from '../types/api';
+import { TIME_RANGE_PRESETS, TimeRange, TimeRangePreset } from './timeRange';
+
+export const ALL_LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug', 'verbose'];
+
+export const DEFAULT_LOG_LIMIT = 50;
+
+/**
+ * Log filters as they are kept in the URL
+ */
+export interface LogFilterParams {
+  levels: string[];
+  service?: string | undefined;
+  searchText: string;
+  limit: number;
+  timeRange?: TimeRange | undefined;
+}
+
+// Filters applied when the URL sets none
+export const DEFAULT_LOG_FILTERS: LogFilterParams = {
+  levels: ALL_LOG_LEVELS,
+  service: undefined,
+  searchText: '',
+  limit: DEFAULT_LOG_LIMIT,
+};
+
+// Query parameters owned by the log filters; other parameters are left alone
+const LOG_FILTER_KEYS = ['level', 'service', 'q', 'range', 'from', 'to', 'limit'];
+
+/**
+ * Route path for a service, or the services list when no ID is given
+ */
+export const getServicePath = (serviceId?: string): string =>
+  serviceId ? `/services/${encodeURIComponent(serviceId)}` : '/services';
+
+/**
+ * Route path for a connection, or the connections list when no ID is given
+ */
+export const getConnectionPath = (connectionId?: string): string =>
+  connectionId ? `/connections/${encodeURIComponent(connectionId)}` : '/connections';
+
+/**
+ * Route path for the logs view with the given filters, e.g. "/logs?level=error&service=X"
+ */
+export const getLogsPath = (filters: Partial<LogFilterParams> = {}): string => {
+  const query = getLogFilterQuery({ ...DEFAULT_LOG_FILTERS, ...filters });
+  return query ? `/logs?${query}` : '/logs';
+};
+
+/**
+ * Query string for log filters alone, used to compare filters with the URL
+ */
+export const getLogFilterQuery = (filters: LogFilterParams): string =>
+  writeLogFilterParams(new URLSearchParams(), filters).toString();
+
+/**
+ * Read log filters from query parameters, using defaults for anything missing or invalid
+ *
+ * @param params - Current query parameters
+ */
+export const readLogFilterParams = (params: URLSearchParams): LogFilterParams => {
+  const levels = params
+    .get('level')
+    ?.split(',')
+    .filter((level) => ALL_LOG_LEVELS.includes(level as LogLevel));
+  const limit = Number(params.get('limit'));
+  const preset = params.get('range');
+  const from = params.get('from');
+  const to = params.get('to');
+
+  let timeRange: TimeRange | undefined;
+  if (preset && preset in TIME_RANGE_PRESETS) {
+    timeRange = { preset: preset as TimeRangePreset };
+  } else if (from && to && !Number.isNaN(Date.parse(from)) && !Number.isNaN(Date.parse(to))) {
+    timeRange = { from, to };
+  }
+
+  return {
+    levels: levels && levels.length > 0 ? levels : DEFAULT_LOG_FILTERS.levels,
+    service: params.get('service') || undefined,
+    searchText: params.get('q') ?? '',
+    limit: Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_LOG_FILTERS.limit,
+    timeRange,
+  };
+};
+
+/**
+ * Copy of the query parameters with the log filters written into them; defaults are left out
+ * to keep links short
+ *
+ * @param params - Current query parameters
+ * @param filters - Filters to write
+ */
+export const writeLogFilterParams = (
+  params: URLSearchParams,
+  filters: LogFilterParams,
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  LOG_FILTER_KEYS.forEach((key) => next.delete(key));
+
+  if (filters.levels.length > 0 && filters.levels.length < ALL_LOG_LEVELS.length) {
+    next.set('level', filters.levels.join(','));
+  }
+  if (filters.service) next.set('service', filters.service);
+  if (filters.searchText) next.set('q', filters.searchText);
+  if (filters.timeRange?.preset) {
+    next.set('range', filters.timeRange.preset);
+  } else if (filters.timeRange?.from && filters.timeRange.to) {
+    next.set('from', filters.timeRange.from);
+    next.set('to', filters.timeRange.to);
+  }
+  if (filters.limit !== DEFAULT_LOG_LIMIT) next.set('limit', String(filters.limit));
+
+  return next;
+};
+
+/**
+ * Copy of the query parameters with one value set, or removed when empty
+ *
+ * @param params - Current query parameters
+ * @param key - Parameter to change
+ * @param value - New value; empty strings and undefined remove the parameter
+ */
+export const withSearchParam = (
+  params: URLSearchParams,
+  key: string,
+  value: string | undefined,
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  if (value) {
+    next.set(key, value);
+  } else {
+    next.delete(key);
+  }
+  return next;
+};